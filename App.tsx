@@ -1,43 +1,380 @@
 
-import React, { useState, useEffect } from 'react';
-import { ReceiptData, BillSplit, ChatMessage } from './types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ReceiptData, ItemAssignment, ChatMessage, TabPolicy, ReceiptImage, SavedTab, SplitHistory, Roster, Settlement, EventReceipt, FxSettings } from './types';
+import { computeBillSplit, getAllocationProgress, DEFAULT_TAB_POLICY } from './utils/splitEngine';
+import { validateReceipt, hasBlockingIssues } from './utils/receiptValidation';
+import { EMPTY_ROSTER, moveItems, removeFromAssignments, removePerson, removeTipExempt, renamePerson, renameTipExempt } from './utils/roster';
+import { EMPTY_SETTLEMENT, removePayer, renamePayer } from './utils/settleUp';
+import { FIRST_RECEIPT_ID, nextReceiptId, defaultReceiptName, byReceiptOrder, splitEventReceipt, buildLedger, updateEventReceipt } from './utils/event';
+import { EMPTY_FX_SETTINGS, renamePersonFx } from './utils/fx';
+import { currencyFormatOf } from './utils/currency';
+import { isShareLink, readShareLink } from './utils/shareLink';
+import { RecordAssignments, createSplitHistory, createVersionId, currentAssignments, pushVersion, undo, redo } from './utils/splitHistory';
 import ReceiptPanel from './components/ReceiptPanel';
 import ChatPanel from './components/ChatPanel';
+import TabHistory from './components/TabHistory';
+import ReceiptSwitcher from './components/ReceiptSwitcher';
+import ExportDialog from './components/ExportDialog';
+import SharedTabView from './components/SharedTabView';
+import { AI_PROVIDERS, AIProviderId, getAIProvider } from './services/aiProvider';
+import { setAIProviderId, getHomeCurrency } from './services/preferences';
+import { createTabId, getTab, getTabImage, saveTab, saveTabImage, deleteTabImage, getActiveTabId, setActiveTabId } from './services/tabStorage';
 import { LogoIcon, ReceiptIcon, ChatIcon } from './components/icons';
 
+const newTabFx = (): FxSettings => ({ ...EMPTY_FX_SETTINGS, home_currency: getHomeCurrency() ?? undefined });
+
 const App: React.FC = () => {
   const [receiptData, setReceiptData] = useState<ReceiptData | null>(null);
-  const [billSplit, setBillSplit] = useState<BillSplit>([]);
+  const [splitHistory, setSplitHistory] = useState<SplitHistory>(() => createSplitHistory());
+  const [policy, setPolicy] = useState<TabPolicy>(DEFAULT_TAB_POLICY);
+  const [roster, setRoster] = useState<Roster>(EMPTY_ROSTER);
+  const [settlement, setSettlement] = useState<Settlement>(EMPTY_SETTLEMENT);
+  // The open receipt lives in the state above; the event's others wait here.
+  const [receiptId, setReceiptId] = useState(FIRST_RECEIPT_ID);
+  const [receiptName, setReceiptName] = useState(() => defaultReceiptName(FIRST_RECEIPT_ID));
+  const [otherReceipts, setOtherReceipts] = useState<EventReceipt[]>([]);
+  const [fx, setFx] = useState<FxSettings>(() => newTabFx());
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [activeView, setActiveView] = useState<'receipt' | 'chat'>('receipt');
+  const [tabId, setTabId] = useState<string | null>(null);
+  const [tabName, setTabName] = useState('');
+  const [tabCreatedAt, setTabCreatedAt] = useState('');
+  const [receiptImage, setReceiptImage] = useState<ReceiptImage | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [focusedItemId, setFocusedItemId] = useState<string | null>(null);
+  // A tab opened from a share link is only shown until it is saved as a copy.
+  const [sharedTab, setSharedTab] = useState<{ tab: SavedTab | null; error: string | null } | null>(null);
+  const [aiProviderId, setAiProviderId] = useState<AIProviderId>(() => getAIProvider().id);
+  const hadReceipt = useRef(false);
+  // Bumped whenever the open receipt changes, so a photo that finishes loading
+  // after the user has moved on is not shown, or saved, under the wrong receipt.
+  const photoRequest = useRef(0);
+
+  const validationIssues = useMemo(() => (receiptData ? validateReceipt(receiptData) : []), [receiptData]);
+  const isSplitBlocked = policy.block_on_invalid_receipt && hasBlockingIssues(validationIssues);
+  const assignments = currentAssignments(splitHistory);
+
+  const billSplit = useMemo(
+    () => (receiptData ? computeBillSplit(receiptData, assignments, policy) : []),
+    [receiptData, assignments, policy]
+  );
+
+  const progress = useMemo(
+    () => (receiptData ? getAllocationProgress(receiptData, billSplit, policy) : null),
+    [receiptData, billSplit, policy]
+  );
+
+  const receiptSplits = useMemo(() => {
+    const others = otherReceipts.map(splitEventReceipt);
+    const open = receiptData && progress
+      ? [{ id: receiptId, name: receiptName, currency: currencyFormatOf(receiptData).currency, billSplit, total: progress.total }]
+      : [];
+    return byReceiptOrder([...open, ...others]);
+  }, [otherReceipts, receiptData, progress, receiptId, receiptName, billSplit]);
+
+  // Everything settles up in one currency: the one picked for the tab, or
+  // else the first receipt's.
+  const homeCurrency = fx.home_currency ?? receiptSplits[0]?.currency ?? currencyFormatOf(receiptData).currency;
+
+  const ledger = useMemo(() => buildLedger(receiptSplits, homeCurrency, fx.rates), [receiptSplits, homeCurrency, fx.rates]);
+
+  // Every change to the assignments goes through here so it can be undone.
+  const recordAssignments: RecordAssignments = (update, source, description) => {
+    const id = createVersionId();
+    setSplitHistory(prev => pushVersion(prev, id, update(currentAssignments(prev)), source, description));
+    return id;
+  };
+
+  // A person is the same person on every receipt of the event and in
+  // settle-up, so renaming, merging and removing them reaches all of it.
+  // Renaming onto someone already on the tab merges them.
+  const handleMovePerson = (from: string, to: string, message: string) => {
+    const versionId = recordAssignments(prev => moveItems(prev, from, to), 'manual', message);
+    setPolicy(prev => renameTipExempt(prev, from, to));
+    setOtherReceipts(prev => prev.map(entry =>
+      updateEventReceipt(entry, assignments => moveItems(assignments, from, to), prevPolicy => renameTipExempt(prevPolicy, from, to), message)
+    ));
+    setRoster(prev => renamePerson(prev, from, to));
+    setFx(prev => renamePersonFx(prev, from, to));
+    setSettlement(prev => renamePayer(prev, from, to));
+    setChatMessages(prev => [...prev, { sender: 'system', text: message, version_id: versionId }]);
+  };
+
+  const handleRemovePerson = (name: string, message: string) => {
+    const versionId = recordAssignments(prev => removeFromAssignments(prev, name), 'manual', message);
+    setPolicy(prev => removeTipExempt(prev, name));
+    setOtherReceipts(prev => prev.map(entry =>
+      updateEventReceipt(entry, assignments => removeFromAssignments(assignments, name), prevPolicy => removeTipExempt(prevPolicy, name), message)
+    ));
+    setRoster(prev => removePerson(prev, name));
+    setSettlement(prev => removePayer(prev, name));
+    setChatMessages(prev => [...prev, { sender: 'system', text: message, version_id: versionId }]);
+  };
+
+  const computeSplit = (candidate: ItemAssignment[]) =>
+    receiptData ? computeBillSplit(receiptData, candidate, policy) : [];
 
   useEffect(() => {
     // When a receipt is successfully processed, switch to the chat view on mobile.
-    if (receiptData && !isLoading) {
+    // Later edits to the same receipt leave the view alone.
+    if (receiptData && !isLoading && !hadReceipt.current) {
       setActiveView('chat');
     }
     // When starting a new tab, reset to receipt view.
     if (!receiptData) {
       setActiveView('receipt');
     }
+    hadReceipt.current = !!receiptData;
   }, [receiptData, isLoading]);
 
-  const resetState = () => {
+  // A share link opens its tab read-only over whatever was open before.
+  useEffect(() => {
+    if (!isShareLink(window.location.hash)) return;
+    readShareLink(window.location.hash)
+      .then(tab => setSharedTab({ tab, error: null }))
+      .catch(err => setSharedTab({ tab: null, error: err.message }));
+  }, []);
+
+  // Reopen whichever tab was open before the page was reloaded.
+  useEffect(() => {
+    const activeId = getActiveTabId();
+    if (!activeId) return;
+    getTab(activeId)
+      .then(tab => (tab ? openTab(tab) : setActiveTabId(null)))
+      .catch(err => console.error('Could not restore the last tab:', err));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // A tab gets an id and a name as soon as it has a receipt.
+  useEffect(() => {
+    if (receiptData && !tabId) {
+      const now = new Date();
+      const id = createTabId();
+      setTabId(id);
+      setTabName(`Tab ${now.toLocaleString('en-ZA', { dateStyle: 'medium', timeStyle: 'short' })}`);
+      setTabCreatedAt(now.toISOString());
+      setActiveTabId(id);
+    }
+  }, [receiptData, tabId]);
+
+  // The open tab as it is saved and exported.
+  const currentTab = (): SavedTab | null =>
+    receiptData && tabId
+      ? {
+        id: tabId,
+        name: tabName,
+        created_at: tabCreatedAt,
+        updated_at: new Date().toISOString(),
+        receipt: receiptData,
+        assignments,
+        policy,
+        chat_messages: chatMessages,
+        split_history: splitHistory,
+        roster,
+        settlement,
+        receipt_id: receiptId,
+        receipt_name: receiptName,
+        other_receipts: otherReceipts,
+        fx,
+      }
+      : null;
+
+  // Autosave, debounced so a burst of edits is written once.
+  useEffect(() => {
+    const tab = currentTab();
+    if (!tab) return;
+    const timer = setTimeout(() => {
+      saveTab(tab).catch(err => console.error('Could not save the tab:', err));
+    }, 500);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tabId, tabName, tabCreatedAt, receiptData, assignments, splitHistory, policy, roster, settlement, chatMessages, receiptId, receiptName, otherReceipts, fx]);
+
+  useEffect(() => {
+    if (tabId && receiptImage) {
+      saveTabImage(tabId, receiptImage, receiptId).catch(err => console.error('Could not save the receipt photo:', err));
+    }
+  }, [tabId, receiptImage, receiptId]);
+
+  // Clears the open receipt only; the rest of the event is kept.
+  const resetReceipt = () => {
     setReceiptData(null);
-    setBillSplit([]);
+    setSplitHistory(createSplitHistory());
+    setPolicy(DEFAULT_TAB_POLICY);
     setChatMessages([]);
     setIsLoading(false);
     setError(null);
+    setReceiptImage(null);
+    photoRequest.current++;
+  };
+
+  const resetState = () => {
+    resetReceipt();
+    setRoster(EMPTY_ROSTER);
+    setSettlement(EMPTY_SETTLEMENT);
+    setReceiptId(FIRST_RECEIPT_ID);
+    setReceiptName(defaultReceiptName(FIRST_RECEIPT_ID));
+    setOtherReceipts([]);
+    setFx(newTabFx());
+    setTabId(null);
+    setTabName('');
+    setActiveTabId(null);
+  };
+
+  const showReceipt = (tabIdToLoad: string, receipt: EventReceipt) => {
+    setReceiptId(receipt.id);
+    setReceiptName(receipt.name);
+    setReceiptData(receipt.receipt);
+    setSplitHistory(receipt.split_history);
+    setPolicy({ ...DEFAULT_TAB_POLICY, ...receipt.policy });
+    setChatMessages(receipt.chat_messages);
+    setError(null);
+    setReceiptImage(null);
+    const request = ++photoRequest.current;
+    getTabImage(tabIdToLoad, receipt.id)
+      .then(image => image && request === photoRequest.current && setReceiptImage(image))
+      .catch(err => console.error('Could not load the receipt photo:', err));
+  };
+
+  const openTab = (tab: SavedTab) => {
+    const receiptIdToOpen = tab.receipt_id ?? FIRST_RECEIPT_ID;
+    showReceipt(tab.id, {
+      id: receiptIdToOpen,
+      name: tab.receipt_name ?? defaultReceiptName(receiptIdToOpen),
+      receipt: tab.receipt,
+      policy: tab.policy,
+      split_history: tab.split_history ?? createSplitHistory(tab.assignments),
+      chat_messages: tab.chat_messages,
+    });
+    setOtherReceipts((tab.other_receipts ?? []).map(entry => ({ ...entry, policy: { ...DEFAULT_TAB_POLICY, ...entry.policy } })));
+    setRoster(tab.roster ?? EMPTY_ROSTER);
+    setSettlement(tab.settlement ?? EMPTY_SETTLEMENT);
+    setFx(tab.fx ?? EMPTY_FX_SETTINGS);
+    setTabId(tab.id);
+    setTabName(tab.name);
+    setTabCreatedAt(tab.created_at);
+    setActiveTabId(tab.id);
   };
 
-  const handleStartNewTab = () => {
-    if (window.confirm('Are you sure you want to start a new tab? Any unsaved changes will be lost.')) {
+  // The event with the open receipt put back among the others.
+  const allReceipts = (): EventReceipt[] =>
+    receiptData
+      ? [...otherReceipts, { id: receiptId, name: receiptName, receipt: receiptData, policy, split_history: splitHistory, chat_messages: chatMessages }]
+      : otherReceipts;
+
+  const handleSwitchReceipt = (id: string) => {
+    const receipts = allReceipts();
+    const target = receipts.find(receipt => receipt.id === id);
+    if (!target || !tabId) return;
+    setOtherReceipts(receipts.filter(receipt => receipt.id !== id));
+    showReceipt(tabId, target);
+  };
+
+  const handleAddReceipt = () => {
+    const id = nextReceiptId([receiptId, ...otherReceipts.map(receipt => receipt.id)]);
+    setOtherReceipts(allReceipts());
+    resetReceipt();
+    setReceiptId(id);
+    setReceiptName(defaultReceiptName(id));
+  };
+
+  const handleRenameReceipt = (id: string) => {
+    const current = id === receiptId ? receiptName : otherReceipts.find(receipt => receipt.id === id)?.name;
+    if (current === undefined) return;
+    const name = window.prompt('Rename receipt', current)?.trim();
+    if (!name || name === current) return;
+    if (id === receiptId) {
+      setReceiptName(name);
+    } else {
+      setOtherReceipts(prev => prev.map(receipt => (receipt.id === id ? { ...receipt, name } : receipt)));
+    }
+  };
+
+  const handleRemoveReceipt = (id: string) => {
+    const receipts = byReceiptOrder(allReceipts());
+    const removed = receipts.find(receipt => receipt.id === id);
+    if (removed && !window.confirm(`Remove "${removed.name}" from this tab? This can't be undone.`)) return;
+    const remaining = receipts.filter(receipt => receipt.id !== id);
+    if (id === receiptId) {
+      if (remaining.length === 0 || !tabId) return;
+      setOtherReceipts(remaining.slice(1));
+      showReceipt(tabId, remaining[0]);
+    } else {
+      setOtherReceipts(otherReceipts.filter(receipt => receipt.id !== id));
+    }
+    if (tabId) {
+      deleteTabImage(tabId, id).catch(err => console.error('Could not delete the receipt photo:', err));
+    }
+  };
+
+  const handleOpenTab = (tab: SavedTab) => {
+    openTab(tab);
+    setIsHistoryOpen(false);
+  };
+
+  const handleTabDeleted = (id: string) => {
+    if (id === tabId) {
       resetState();
     }
   };
 
+  const handleTabRenamed = (tab: SavedTab) => {
+    if (tab.id === tabId) {
+      setTabName(tab.name);
+    }
+  };
+
+  const handleProviderChange = (id: AIProviderId) => {
+    setAiProviderId(id);
+    setAIProviderId(id);
+  };
+
+  // Autosave waits for a pause in editing, so the last few edits are written
+  // now; if that fails the tab stays open rather than losing them.
+  const handleStartNewTab = async () => {
+    const tab = currentTab();
+    if (tab) {
+      try {
+        await saveTab(tab);
+      } catch (err: any) {
+        setError(`Could not save this tab, so it was kept open: ${err.message}`);
+        console.error(err);
+        return;
+      }
+    }
+    resetState();
+  };
+
+  const exportTab = isExportOpen ? currentTab() : null;
+
+  // Shows a receipt line, switching to the receipt on mobile, and highlights it for a moment.
+  const handleShowLine = (itemId: string) => {
+    setActiveView('receipt');
+    setFocusedItemId(itemId);
+    setTimeout(() => setFocusedItemId(prev => (prev === itemId ? null : prev)), 2000);
+  };
+
+  const handleCloseSharedTab = () => {
+    setSharedTab(null);
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  };
+
+  // Shared and imported tabs are saved as new tabs, so they never replace one already here.
+  const handleSaveSharedTab = async (tab: SavedTab) => {
+    const now = new Date().toISOString();
+    const copy = { ...tab, id: createTabId(), created_at: now, updated_at: now };
+    try {
+      await saveTab(copy);
+      openTab(copy);
+      handleCloseSharedTab();
+    } catch (err: any) {
+      setSharedTab({ tab, error: err.message || 'Could not save the tab.' });
+    }
+  };
+
   return (
     <div className="bg-slate-100 dark:bg-slate-900 h-screen font-sans text-slate-800 dark:text-slate-200 flex flex-col">
       <header className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 shadow-sm flex-shrink-0">
@@ -46,16 +383,70 @@ const App: React.FC = () => {
           <h1 className="text-2xl font-bold text-slate-900 dark:text-white">
             TabSplit
           </h1>
+          {receiptData && tabName && (
+            <span className="hidden sm:inline text-sm text-slate-500 dark:text-slate-400 truncate">{tabName}</span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={aiProviderId}
+            onChange={(e) => handleProviderChange(e.target.value as AIProviderId)}
+            className="hidden sm:block px-2 py-2 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-slate-100 dark:bg-slate-700"
+            aria-label="AI provider"
+          >
+            {AI_PROVIDERS.map(provider => (
+              <option key={provider.id} value={provider.id}>{provider.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setIsHistoryOpen(true)}
+            className="px-4 py-2 text-sm font-semibold text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-700 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-600 transition-colors"
+          >
+            History
+          </button>
+          {receiptData && tabId && (
+            <button
+              onClick={() => setIsExportOpen(true)}
+              className="px-4 py-2 text-sm font-semibold text-slate-700 dark:text-slate-200 bg-slate-200 dark:bg-slate-700 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-600 transition-colors"
+            >
+              Export
+            </button>
+          )}
+          {receiptData && (
+             <button
+               onClick={handleStartNewTab}
+               className="px-4 py-2 text-sm font-semibold text-white bg-red-600 rounded-lg hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-colors"
+             >
+               Start New Tab
+             </button>
+          )}
         </div>
-        {receiptData && (
-           <button
-             onClick={handleStartNewTab}
-             className="px-4 py-2 text-sm font-semibold text-white bg-red-600 rounded-lg hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-colors"
-           >
-             Start New Tab
-           </button>
-        )}
       </header>
+      {(receiptData || otherReceipts.length > 0) && tabId && (
+        <ReceiptSwitcher
+          receipts={byReceiptOrder([{ id: receiptId, name: receiptName }, ...otherReceipts])}
+          activeId={receiptId}
+          onSwitch={handleSwitchReceipt}
+          onAdd={handleAddReceipt}
+          onRename={handleRenameReceipt}
+          onRemove={handleRemoveReceipt}
+          canAdd={!!receiptData}
+          disabled={isLoading}
+        />
+      )}
+      {isHistoryOpen && (
+        <TabHistory
+          activeTabId={tabId}
+          onOpen={handleOpenTab}
+          onDeleted={handleTabDeleted}
+          onRenamed={handleTabRenamed}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+      {exportTab && <ExportDialog tab={exportTab} onClose={() => setIsExportOpen(false)} />}
+      {sharedTab && (
+        <SharedTabView tab={sharedTab.tab} error={sharedTab.error} onSaveCopy={handleSaveSharedTab} onClose={handleCloseSharedTab} />
+      )}
       <main className="flex-grow flex flex-col md:flex-row overflow-hidden">
         <div className={`${activeView === 'receipt' ? 'flex' : 'hidden'} md:flex flex-col w-full md:w-1/3`}>
             <ReceiptPanel
@@ -65,19 +456,48 @@ const App: React.FC = () => {
               setIsLoading={setIsLoading}
               error={error}
               setError={setError}
-              resetState={resetState}
-              billSplit={billSplit}
-              setBillSplit={setBillSplit}
+              resetReceipt={resetReceipt}
+              assignments={assignments}
+              recordAssignments={recordAssignments}
+              policy={policy}
+              setPolicy={setPolicy}
+              validationIssues={validationIssues}
+              isSplitBlocked={isSplitBlocked}
+              receiptImage={receiptImage}
+              setReceiptImage={setReceiptImage}
               setChatMessages={setChatMessages}
+              roster={roster}
+              setRoster={setRoster}
+              progress={progress}
+              focusedItemId={focusedItemId}
             />
         </div>
         <div className={`${activeView === 'chat' ? 'flex' : 'hidden'} md:flex flex-col w-full md:w-2/3`}>
             <ChatPanel
               receiptData={receiptData}
+              receiptId={receiptId}
               billSplit={billSplit}
-              setBillSplit={setBillSplit}
+              progress={progress}
+              receiptSplits={receiptSplits}
+              ledger={ledger}
+              fx={fx}
+              setFx={setFx}
+              assignments={assignments}
+              recordAssignments={recordAssignments}
+              splitHistory={splitHistory}
+              computeSplit={computeSplit}
+              roster={roster}
+              policy={policy}
+              onMovePerson={handleMovePerson}
+              onRemovePerson={handleRemovePerson}
+              onShowLine={handleShowLine}
+              settlement={settlement}
+              setSettlement={setSettlement}
+              onUndo={() => setSplitHistory(undo)}
+              onRedo={() => setSplitHistory(redo)}
               chatMessages={chatMessages}
               setChatMessages={setChatMessages}
+              isSplitBlocked={isSplitBlocked}
               isLoading={isLoading}
               setIsLoading={setIsLoading}
               error={error}
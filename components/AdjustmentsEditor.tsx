@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { ReceiptData, ReceiptAdjustment, AdjustmentKind, AdjustmentScope } from '../types';
+import { getAdjustmentAmount } from '../utils/splitEngine';
+import { nextAdjustmentId } from '../utils/receipt';
+import { currencyFormatOf, formatCurrency } from '../utils/currency';
+import { PlusCircleIcon, XCircleIcon } from './icons';
+
+interface AdjustmentsEditorProps {
+  receiptData: ReceiptData;
+  onChange: (adjustments: ReceiptAdjustment[]) => void;
+}
+
+const inputClassName = "p-1 text-xs border border-slate-300 dark:border-slate-600 rounded-md bg-slate-100 dark:bg-slate-700";
+
+const AdjustmentsEditor: React.FC<AdjustmentsEditorProps> = ({ receiptData, onChange }) => {
+  const adjustments = receiptData.adjustments ?? [];
+  const currency = currencyFormatOf(receiptData);
+  const categories = Array.from(new Set(receiptData.items.map(item => item.category).filter((c): c is string => !!c)));
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [description, setDescription] = useState('');
+  const [kind, setKind] = useState<AdjustmentKind>('discount');
+  const [value, setValue] = useState('');
+  const [scope, setScope] = useState<AdjustmentScope>('bill');
+  const [category, setCategory] = useState(categories[0] ?? '');
+  const [itemIds, setItemIds] = useState<string[]>([]);
+
+  const describeScope = (adjustment: ReceiptAdjustment) => {
+    switch (adjustment.scope) {
+      case 'category':
+        return `on ${adjustment.category}`;
+      case 'items':
+        return `on ${receiptData.items.filter(item => adjustment.item_ids?.includes(item.id)).map(item => item.item_name).join(', ')}`;
+      default:
+        return 'on the whole bill';
+    }
+  };
+
+  const handleAdd = () => {
+    // "10%" is a percentage off the affected lines, anything else a fixed amount.
+    const isPercent = value.trim().endsWith('%');
+    const number = parseFloat(value);
+    if (!Number.isFinite(number) || number <= 0) return;
+
+    const adjustment: ReceiptAdjustment = {
+      id: nextAdjustmentId(adjustments),
+      kind,
+      description: description.trim() || kind,
+      ...(isPercent ? { percent: number } : { amount: number }),
+      scope,
+      ...(scope === 'category' ? { category } : {}),
+      ...(scope === 'items' ? { item_ids: itemIds } : {}),
+    };
+    onChange([...adjustments, adjustment]);
+    setIsAdding(false);
+    setDescription('');
+    setValue('');
+    setItemIds([]);
+  };
+
+  const toggleItem = (itemId: string) => {
+    setItemIds(prev => (prev.includes(itemId) ? prev.filter(id => id !== itemId) : [...prev, itemId]));
+  };
+
+  return (
+    <div className="space-y-2">
+      {adjustments.map(adjustment => (
+        <div key={adjustment.id} className="flex justify-between items-center">
+          <span className="text-slate-600 dark:text-slate-400">
+            <span className="text-xs uppercase font-semibold text-emerald-600 dark:text-emerald-400 mr-2">{adjustment.kind}</span>
+            {adjustment.description} <span className="text-xs">{describeScope(adjustment)}</span>
+          </span>
+          <span className="flex items-center gap-2">
+            <span className="font-medium text-emerald-600 dark:text-emerald-400">-{formatCurrency(getAdjustmentAmount(receiptData, adjustment), currency)}</span>
+            <button onClick={() => onChange(adjustments.filter(a => a.id !== adjustment.id))} className="text-slate-400 hover:text-red-500" aria-label="Remove adjustment">
+              <XCircleIcon className="h-4 w-4" />
+            </button>
+          </span>
+        </div>
+      ))}
+      {isAdding ? (
+        <div className="p-2 rounded-lg bg-slate-100 dark:bg-slate-700/50 space-y-2">
+          <div className="flex gap-2">
+            <select value={kind} onChange={(e) => setKind(e.target.value as AdjustmentKind)} className={inputClassName}>
+              <option value="discount">Discount</option>
+              <option value="voucher">Voucher</option>
+              <option value="comp">Comp</option>
+            </select>
+            <input type="text" value={description} onChange={(e) => setDescription(e.target.value)} placeholder="e.g., 10% off food" className={`${inputClassName} flex-grow min-w-0`} />
+            <input type="text" value={value} onChange={(e) => setValue(e.target.value)} placeholder="10% or 50" className={`${inputClassName} w-20`} />
+          </div>
+          <div className="flex gap-2">
+            <select value={scope} onChange={(e) => setScope(e.target.value as AdjustmentScope)} className={inputClassName}>
+              <option value="bill">Whole bill</option>
+              {categories.length > 0 && <option value="category">Category</option>}
+              <option value="items">Specific lines</option>
+            </select>
+            {scope === 'category' && (
+              <select value={category} onChange={(e) => setCategory(e.target.value)} className={inputClassName}>
+                {categories.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            )}
+          </div>
+          {scope === 'items' && (
+            <div className="max-h-32 overflow-y-auto space-y-1">
+              {receiptData.items.map(item => (
+                <label key={item.id} className="flex items-center gap-2 text-xs">
+                  <input type="checkbox" checked={itemIds.includes(item.id)} onChange={() => toggleItem(item.id)} />
+                  {item.quantity} x {item.item_name} ({formatCurrency(item.price, currency)})
+                </label>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button onClick={handleAdd} className="px-3 py-1 text-xs font-semibold text-white bg-indigo-500 rounded-md hover:bg-indigo-600">Add</button>
+            <button onClick={() => setIsAdding(false)} className="px-3 py-1 text-xs font-semibold text-slate-600 bg-slate-200 dark:text-slate-300 dark:bg-slate-600 rounded-md hover:bg-slate-300 dark:hover:bg-slate-500">Cancel</button>
+          </div>
+        </div>
+      ) : (
+        <button onClick={() => setIsAdding(true)} className="flex items-center gap-1 text-xs font-semibold text-slate-500 hover:text-indigo-500">
+          <PlusCircleIcon className="h-4 w-4" /> Add discount, voucher or comp
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AdjustmentsEditor;
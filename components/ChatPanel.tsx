@@ -1,46 +1,178 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { ReceiptData, BillSplit, ChatMessage } from '../types';
-import { updateBillSplit } from '../services/geminiService';
+import { ReceiptData, BillSplit, PersonSplit, ChatMessage, ItemAssignment, SplitHistory, SplitProposal, Roster, Settlement, FxSettings, TabPolicy } from '../types';
+import { getAIProvider } from '../services/aiProvider';
+import { getConfirmAiChanges, setConfirmAiChanges } from '../services/preferences';
+import { RecordAssignments, previousAssignments } from '../utils/splitHistory';
+import { changedItemIds, getItemShares, setItemAssignment, AllocationProgress } from '../utils/splitEngine';
+import { diffSplits } from '../utils/splitDiff';
+import { interpretCommand } from '../utils/commandParser';
+import { rosterNames, groupTotals, GroupTotal } from '../utils/roster';
+import { Ledger, ReceiptSplit } from '../utils/event';
+import { CurrencyFormat, currencyDigits, currencyFormatOf, currencyFormatFor, formatCurrency } from '../utils/currency';
+import { ConvertedShare, convertForPeople } from '../utils/fx';
+import SplitHistoryPanel from './SplitHistoryPanel';
+import SplitDiffView from './SplitDiffView';
+import ProposalCard from './ProposalCard';
+import SettleUpPanel from './SettleUpPanel';
+import EventLedger from './EventLedger';
+import FxPanel from './FxPanel';
+import PersonDetail from './PersonDetail';
 import { SendIcon, LogoIcon } from './icons';
 
 interface ChatPanelProps {
   receiptData: ReceiptData | null;
+  /** The open receipt of the event; a pending proposal belongs to it. */
+  receiptId: string;
   billSplit: BillSplit;
-  setBillSplit: React.Dispatch<React.SetStateAction<BillSplit>>;
+  progress: AllocationProgress | null;
+  /** Every loaded receipt of the event, the open one included. */
+  receiptSplits: ReceiptSplit[];
+  /** Everyone's totals across the event in the settle-up currency; settle-up works from these. */
+  ledger: Ledger;
+  fx: FxSettings;
+  setFx: React.Dispatch<React.SetStateAction<FxSettings>>;
+  assignments: ItemAssignment[];
+  recordAssignments: RecordAssignments;
+  splitHistory: SplitHistory;
+  computeSplit: (assignments: ItemAssignment[]) => BillSplit;
+  roster: Roster;
+  policy: TabPolicy;
+  /** Renames or merges someone across the whole event, settle-up included. */
+  onMovePerson: (from: string, to: string, message: string) => void;
+  /** Takes someone off every receipt and out of settle-up. */
+  onRemovePerson: (name: string, message: string) => void;
+  /** Brings a receipt line into view, e.g. from someone's breakdown. */
+  onShowLine: (itemId: string) => void;
+  settlement: Settlement;
+  setSettlement: React.Dispatch<React.SetStateAction<Settlement>>;
+  onUndo: () => void;
+  onRedo: () => void;
   chatMessages: ChatMessage[];
   setChatMessages: React.Dispatch<React.SetStateAction<ChatMessage[]>>;
+  isSplitBlocked: boolean;
   isLoading: boolean;
   setIsLoading: React.Dispatch<React.SetStateAction<boolean>>;
   error: string | null;
   setError: React.Dispatch<React.SetStateAction<string | null>>;
 }
 
-const formatCurrency = (amount: number) => {
-    return amount.toLocaleString('en-ZA', { style: 'currency', currency: 'ZAR' });
-};
 
-const TabSummary: React.FC<{ billSplit: BillSplit }> = ({ billSplit }) => (
+const AllocationBar: React.FC<{ progress: AllocationProgress; currency: CurrencyFormat }> = ({ progress, currency }) => (
+  <div className="mb-4">
+    <div className="flex justify-between items-center text-sm mb-1">
+      {progress.is_fully_allocated ? (
+        <span className="font-semibold text-green-600 dark:text-green-400">Settled: every item is allocated</span>
+      ) : (
+        <span className="text-slate-600 dark:text-slate-300">{progress.percent}% allocated</span>
+      )}
+      {!progress.is_fully_allocated && (
+        <span className="font-semibold text-amber-600 dark:text-amber-400">Unassigned: {formatCurrency(progress.unassigned, currency)}</span>
+      )}
+    </div>
+    <div className="h-2 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+      <div
+        className={`h-full transition-all ${progress.is_fully_allocated ? 'bg-green-500' : 'bg-indigo-500'}`}
+        style={{ width: `${progress.percent}%` }}
+      />
+    </div>
+    {progress.lines.length > 0 && (
+      <div className="flex flex-wrap gap-1 mt-2">
+        {progress.lines.map(line => (
+          <span key={line.item_id} className="text-xs text-amber-700 dark:text-amber-300 bg-amber-100 dark:bg-amber-500/20 px-2 py-0.5 rounded">
+            {line.item_name} {formatCurrency(line.amount, currency)}
+          </span>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+const TabSummary: React.FC<{
+  billSplit: BillSplit;
+  progress: AllocationProgress | null;
+  idlePeople: string[];
+  groups: GroupTotal[];
+  currency: CurrencyFormat;
+  converted: Record<string, ConvertedShare>;
+  expandedPerson: string | null;
+  onToggleExpanded: (name: string) => void;
+  renderDetail: (split: PersonSplit) => React.ReactNode;
+}> = ({ billSplit, progress, idlePeople, groups, currency, converted, expandedPerson, onToggleExpanded, renderDetail }) => (
   <div className="bg-slate-100 dark:bg-slate-800/50 p-4 rounded-xl border border-slate-200 dark:border-slate-700 mb-4">
     <h3 className="text-xl font-semibold mb-4 text-slate-800 dark:text-slate-100">Tab Summary</h3>
-    {billSplit.length === 0 ? (
+    {progress && <AllocationBar progress={progress} currency={currency} />}
+    {billSplit.length === 0 && idlePeople.length === 0 ? (
       <p className="text-sm text-slate-500 dark:text-slate-400">No assignments yet. Start chatting to split the tab!</p>
     ) : (
       <ul className="space-y-3">
         {billSplit.map((split) => (
           <li key={split.person_name} className="p-3 bg-white dark:bg-slate-700 rounded-lg shadow-sm">
-            <div className="flex justify-between items-center">
+            <button
+              onClick={() => onToggleExpanded(split.person_name)}
+              className="w-full text-left flex justify-between items-center"
+              aria-expanded={expandedPerson === split.person_name}
+            >
               <div className="flex items-center gap-2">
                 <span className="font-bold text-indigo-600 dark:text-indigo-400">{split.person_name}</span>
                 <span className="text-xs font-medium text-slate-600 dark:text-slate-300 bg-slate-200 dark:bg-slate-600 px-2 py-0.5 rounded-full">
                   {split.items.length} {split.items.length === 1 ? 'item' : 'items'}
                 </span>
               </div>
-              <span className="font-bold text-indigo-600 dark:text-indigo-400">{formatCurrency(split.total)}</span>
-            </div>
-            <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">
-              Subtotal: {formatCurrency(split.subtotal)} | Tax: {formatCurrency(split.tax)} | Tip: {formatCurrency(split.tip)}
-            </div>
+              <span className="text-right">
+                <span className="font-bold text-indigo-600 dark:text-indigo-400">{formatCurrency(split.total, currency)}</span>
+                {converted[split.person_name] && (
+                  <span className="block text-xs text-slate-500 dark:text-slate-400">
+                    ≈ {formatCurrency(converted[split.person_name].amount, currencyFormatFor(converted[split.person_name].currency))}
+                    {converted[split.person_name].fee !== 0 && (
+                      <> + {formatCurrency(converted[split.person_name].fee, currencyFormatFor(converted[split.person_name].currency))} card fee</>
+                    )}
+                  </span>
+                )}
+              </span>
+            </button>
+            {expandedPerson === split.person_name ? renderDetail(split) : (
+              <>
+                <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                  Subtotal: {formatCurrency(split.subtotal, currency)}
+                  {split.discount !== 0 && <> | Discounts: -{formatCurrency(split.discount, currency)}</>}
+                  {' '}| Tax: {formatCurrency(split.tax, currency)}
+                  {split.service_charge !== 0 && <> | Service: {formatCurrency(split.service_charge, currency)}</>}
+                  {split.cover_charge !== 0 && <> | Cover: {formatCurrency(split.cover_charge, currency)}</>}
+                  {' '}| Tip: {formatCurrency(split.tip, currency)}
+                  {split.adjustment !== 0 && (
+                    <span className="text-amber-600 dark:text-amber-400"> | Rounding: {split.adjustment > 0 ? '+' : ''}{formatCurrency(split.adjustment, currency)}</span>
+                  )}
+                </div>
+                {split.items.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {split.items.map(item => (
+                      <span key={item.item_id} title={item.item_id} className="text-xs text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-600 px-2 py-0.5 rounded">
+                        {item.units ? `${item.units} x ` : ''}{item.item_name}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </li>
+        ))}
+        {idlePeople.map(name => (
+          <li key={name} className="p-3 bg-white dark:bg-slate-700 rounded-lg shadow-sm flex justify-between items-center">
+            <span className="font-bold text-slate-500 dark:text-slate-400">{name}</span>
+            <span className="text-xs text-slate-500 dark:text-slate-400">Nothing assigned yet</span>
+          </li>
+        ))}
+      </ul>
+    )}
+    {groups.length > 0 && (
+      <ul className="mt-3 pt-3 border-t border-slate-200 dark:border-slate-700 space-y-1 text-sm">
+        {groups.map(({ group, total }) => (
+          <li key={group.name} className="flex justify-between">
+            <span className="text-slate-600 dark:text-slate-300">
+              <span className="font-semibold">{group.name}</span> ({group.members.join(', ')}) pays together
+            </span>
+            <span className="font-bold text-indigo-600 dark:text-indigo-400">{formatCurrency(total, currency)}</span>
           </li>
         ))}
       </ul>
@@ -51,17 +183,41 @@ const TabSummary: React.FC<{ billSplit: BillSplit }> = ({ billSplit }) => (
 
 const ChatPanel: React.FC<ChatPanelProps> = ({
   receiptData,
+  receiptId,
   billSplit,
-  setBillSplit,
+  progress,
+  receiptSplits,
+  ledger,
+  fx,
+  setFx,
+  assignments,
+  recordAssignments,
+  splitHistory,
+  computeSplit,
+  roster,
+  policy,
+  onMovePerson,
+  onRemovePerson,
+  onShowLine,
+  settlement,
+  setSettlement,
+  onUndo,
+  onRedo,
   chatMessages,
   setChatMessages,
+  isSplitBlocked,
   isLoading,
   setIsLoading,
   error,
   setError,
 }) => {
   const [input, setInput] = useState('');
+  const [diffMessageIndex, setDiffMessageIndex] = useState<number | null>(null);
+  const [proposal, setProposal] = useState<SplitProposal | null>(null);
+  const [confirmChanges, setConfirmChanges] = useState(getConfirmAiChanges);
+  const [expandedPerson, setExpandedPerson] = useState<string | null>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const shownReceipt = useRef({ id: receiptId, receipt: receiptData });
 
   useEffect(() => {
     if (receiptData && chatMessages.length === 0) {
@@ -71,15 +227,35 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
     } else if (!receiptData) {
       setChatMessages([]);
     }
+
+    // Edits to the receipt keep a pending proposal open; it is only dropped
+    // when the receipt is swapped out or a line it changes is gone.
+    const previous = shownReceipt.current;
+    shownReceipt.current = { id: receiptId, receipt: receiptData };
+    if (!proposal) return;
+    if (!receiptData) {
+      setProposal(null);
+    } else if (receiptId !== previous.id) {
+      setProposal(null);
+      setChatMessages(prev => [...prev, { sender: 'system', text: 'The proposed change was dropped because another receipt was opened.' }]);
+    } else {
+      const lineIds = new Set(receiptData.items.map(item => item.id));
+      const goneIds = changedItemIds(proposal.base, proposal.assignments).filter(itemId => !lineIds.has(itemId));
+      if (goneIds.length > 0) {
+        const names = goneIds.map(itemId => previous.receipt?.items.find(item => item.id === itemId)?.item_name ?? itemId);
+        setProposal(null);
+        setChatMessages(prev => [...prev, { sender: 'system', text: `The proposed change was dropped because ${names.join(', ')} ${names.length === 1 ? 'is' : 'are'} no longer on the receipt.` }]);
+      }
+    }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [receiptData]);
+  }, [receiptData, receiptId]);
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [chatMessages, isLoading]);
 
   const handleSendMessage = async () => {
-    if (!input.trim() || !receiptData || isLoading) return;
+    if (!input.trim() || !receiptData || isLoading || isSplitBlocked || proposal) return;
 
     const newUserMessage: ChatMessage = { sender: 'user', text: input };
     setChatMessages(prev => [...prev, newUserMessage]);
@@ -88,8 +264,20 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
     setError(null);
 
     try {
-      const updatedSplit = await updateBillSplit(receiptData, billSplit, input);
-      setBillSplit(updatedSplit);
+      // Simple commands are understood locally; only the rest go to the AI.
+      const update = interpretCommand(receiptData, assignments, input, roster)
+        ?? await getAIProvider().updateBillSplit(receiptData, assignments, input, chatMessages);
+      const hasChanges = changedItemIds(assignments, update.assignments).length > 0;
+      if (update.needs_clarification || !hasChanges) {
+        setChatMessages(prev => [...prev, { sender: 'bot', text: update.reply }]);
+      } else if (confirmChanges) {
+        setChatMessages(prev => [...prev, { sender: 'bot', text: update.reply }]);
+        setProposal({ command: newUserMessage.text, base: assignments, assignments: update.assignments });
+      } else {
+        const versionId = recordAssignments(() => update.assignments, 'chat', newUserMessage.text);
+        // The reply is linked to the version it describes so its changes can be shown.
+        setChatMessages(prev => [...prev, { sender: 'bot', text: update.reply, version_id: versionId }]);
+      }
     } catch (err: any) {
       setError(err.message || "An unknown error occurred.");
       console.error(err);
@@ -100,12 +288,128 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
     }
   };
 
-  const isChatDisabled = !receiptData;
+  // Only the lines the proposal touches are written, so manual edits made
+  // while it was open are kept.
+  const handleAcceptProposal = () => {
+    if (!proposal) return;
+    const itemIds = changedItemIds(proposal.base, proposal.assignments);
+    const versionId = recordAssignments(
+      prev => itemIds.reduce((acc, itemId) => setItemAssignment(acc, itemId, getItemShares(proposal.assignments, itemId)), prev),
+      'chat',
+      proposal.command
+    );
+    setChatMessages(prev => [...prev, { sender: 'system', text: 'Proposed change accepted.', version_id: versionId }]);
+    setProposal(null);
+  };
+
+  const handleRejectProposal = () => {
+    setChatMessages(prev => [...prev, { sender: 'system', text: 'Proposed change rejected. Nothing was changed.' }]);
+    setProposal(null);
+  };
+
+  const handleConfirmChangesToggle = (confirm: boolean) => {
+    setConfirmChanges(confirm);
+    setConfirmAiChanges(confirm);
+  };
+
+  const people = rosterNames(roster, assignments);
+
+  // Renaming onto someone already on the tab is the same as merging into them:
+  // their lines, roster place, tip exemption, payments and currency settings combine.
+  const movePerson = (from: string, to: string, message: string) => {
+    onMovePerson(from, to, message);
+    setExpandedPerson(to);
+  };
+
+  const handleRenamePerson = (from: string) => {
+    const to = window.prompt(`Rename ${from}`, from)?.trim();
+    if (!to || to === from) return;
+    if (people.includes(to)) {
+      if (!window.confirm(`${to} is already on the tab. Merge ${from} into ${to}?`)) return;
+      movePerson(from, to, `Merged ${from} into ${to}.`);
+      return;
+    }
+    movePerson(from, to, `Renamed ${from} to ${to}.`);
+  };
+
+  const handleMergePerson = (from: string, into: string) => {
+    if (!window.confirm(`Merge ${from} into ${into}? ${into} takes over all of ${from}'s items.`)) return;
+    movePerson(from, into, `Merged ${from} into ${into}.`);
+  };
+
+  const handleRemovePerson = (name: string) => {
+    if (!window.confirm(`Remove ${name} from the tab? Their items become unassigned and their payments are dropped.`)) return;
+    onRemovePerson(name, `Removed ${name} from the tab.`);
+    setExpandedPerson(null);
+  };
+
+  const currency = currencyFormatOf(receiptData);
+  const digits = currencyDigits(currency.currency);
+  // Settle-up happens in the tab's home currency, which may not be this receipt's.
+  const homeFormat = ledger.currency === currency.currency ? currency : currencyFormatFor(ledger.currency);
+  const isChatDisabled = !receiptData || isSplitBlocked || !!proposal;
+
+  // What a linked message changed, or null once that version is gone.
+  const messageDiff = (msg: ChatMessage) => {
+    const version = splitHistory.versions.find(v => v.id === msg.version_id);
+    const before = version ? previousAssignments(splitHistory, version.id) : null;
+    return version && before ? diffSplits(computeSplit(before), computeSplit(version.assignments), digits) : null;
+  };
 
   return (
     <div className="flex flex-col bg-white dark:bg-slate-800 h-full">
       <div className="flex-grow p-4 sm:p-6 flex flex-col overflow-hidden">
-        <TabSummary billSplit={billSplit} />
+        <TabSummary
+          billSplit={billSplit}
+          progress={progress}
+          idlePeople={people.filter(name => !billSplit.some(split => split.person_name === name))}
+          groups={groupTotals(roster, billSplit, digits)}
+          currency={currency}
+          converted={progress ? convertForPeople(billSplit, progress.total, currency.currency, fx, ledger.currency) : {}}
+          expandedPerson={expandedPerson}
+          onToggleExpanded={name => setExpandedPerson(prev => (prev === name ? null : name))}
+          renderDetail={split => receiptData && (
+            <PersonDetail
+              split={split}
+              receiptData={receiptData}
+              policy={policy}
+              currency={currency}
+              otherPeople={people.filter(name => name !== split.person_name)}
+              disabled={isSplitBlocked || !!proposal}
+              onShowLine={onShowLine}
+              onRename={() => handleRenamePerson(split.person_name)}
+              onMerge={into => handleMergePerson(split.person_name, into)}
+              onRemove={() => handleRemovePerson(split.person_name)}
+            />
+          )}
+        />
+        {receiptData && (
+          <FxPanel
+            fx={fx}
+            onChange={setFx}
+            homeCurrency={ledger.currency}
+            receiptCurrencies={receiptSplits.map(split => split.currency)}
+            people={ledger.rows.map(row => row.person_name)}
+          />
+        )}
+        {receiptSplits.length > 1 && <EventLedger receiptSplits={receiptSplits} ledger={ledger} currency={homeFormat} />}
+        {receiptData && progress && (
+          <SettleUpPanel
+            totals={ledger.rows}
+            roster={roster}
+            people={ledger.rows.reduce(
+              (names, row) => (names.includes(row.person_name) ? names : [...names, row.person_name]),
+              people
+            )}
+            total={ledger.total}
+            settlement={settlement}
+            currency={homeFormat}
+            fx={fx}
+            missingRates={ledger.missing_rates}
+            onChange={setSettlement}
+          />
+        )}
+        {receiptData && <SplitHistoryPanel history={splitHistory} computeSplit={computeSplit} currency={currency} onUndo={onUndo} onRedo={onRedo} />}
         <div className="flex-grow overflow-y-auto bg-slate-100 dark:bg-slate-900 rounded-xl p-4 space-y-6">
           {chatMessages.map((msg, index) => (
             <div key={index} className={`flex items-start gap-4 ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
@@ -120,9 +424,32 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
                     'bg-amber-100 dark:bg-amber-500/20 text-amber-800 dark:text-amber-200 italic rounded-bl-none'
                 }`}>
                 <p className="text-sm leading-relaxed">{msg.text}</p>
+                {msg.version_id !== undefined && (
+                  <button
+                    onClick={() => setDiffMessageIndex(prev => (prev === index ? null : index))}
+                    className="mt-2 text-xs font-semibold underline opacity-75 hover:opacity-100"
+                  >
+                    {diffMessageIndex === index ? 'Hide changes' : 'Show changes'}
+                  </button>
+                )}
+                {diffMessageIndex === index && (
+                  <div className="mt-2 p-2 rounded bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 not-italic">
+                    {messageDiff(msg) ? <SplitDiffView diff={messageDiff(msg)!} currency={currency} /> : <p className="text-xs">No changes to show.</p>}
+                  </div>
+                )}
               </div>
             </div>
           ))}
+          {proposal && receiptData && (
+            <ProposalCard
+              receiptData={receiptData}
+              proposal={proposal}
+              computeSplit={computeSplit}
+              onChange={setProposal}
+              onAccept={handleAcceptProposal}
+              onReject={handleRejectProposal}
+            />
+          )}
           {isLoading && (
              <div className="flex items-start gap-4">
                 <div className="w-8 h-8 rounded-full bg-indigo-500 flex-shrink-0 flex items-center justify-center animate-pulse">
@@ -149,7 +476,7 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
-            placeholder={isChatDisabled ? "Upload a receipt to start" : "e.g., Alice had the nachos..."}
+            placeholder={!receiptData ? "Upload a receipt to start" : isSplitBlocked ? "Fix the receipt issues to keep splitting" : proposal ? "Accept or reject the proposed change first" : "e.g., Alice had the nachos..."}
             disabled={isChatDisabled || isLoading}
             className="flex-grow p-4 border border-slate-300 dark:border-slate-600 rounded-xl bg-slate-100 dark:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:cursor-not-allowed disabled:bg-slate-200 dark:disabled:bg-slate-800"
             aria-label="Chat input"
@@ -163,6 +490,10 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
             <SendIcon className="h-6 w-6" />
           </button>
         </div>
+        <label className="flex items-center gap-2 mt-2 text-xs text-slate-500 dark:text-slate-400">
+          <input type="checkbox" checked={confirmChanges} onChange={(e) => handleConfirmChangesToggle(e.target.checked)} />
+          Review AI changes before they are applied
+        </label>
       </div>
     </div>
   );
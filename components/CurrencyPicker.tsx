@@ -0,0 +1,38 @@
+import React from 'react';
+import { CurrencyFormat, COMMON_CURRENCIES, COMMON_LOCALES, currencyLabel, defaultLocaleFor } from '../utils/currency';
+
+interface CurrencyPickerProps {
+  value: CurrencyFormat;
+  onChange: (format: CurrencyFormat) => void;
+}
+
+const selectClassName = 'p-1 text-xs border border-slate-300 dark:border-slate-600 rounded-md bg-slate-100 dark:bg-slate-700';
+
+const CurrencyPicker: React.FC<CurrencyPickerProps> = ({ value, onChange }) => {
+  // A detected currency or locale outside the common lists is still offered.
+  const currencies = Array.from(new Set([value.currency, ...COMMON_CURRENCIES.map(common => common.currency)]));
+  const locales = Array.from(new Set([value.locale, ...COMMON_LOCALES]));
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+      <label className="flex items-center gap-1">
+        Currency
+        <select
+          value={value.currency}
+          onChange={(e) => onChange({ currency: e.target.value, locale: defaultLocaleFor(e.target.value) })}
+          className={selectClassName}
+        >
+          {currencies.map(code => <option key={code} value={code}>{currencyLabel(code)}</option>)}
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        Format
+        <select value={value.locale} onChange={(e) => onChange({ ...value, locale: e.target.value })} className={selectClassName}>
+          {locales.map(locale => <option key={locale} value={locale}>{locale}</option>)}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default CurrencyPicker;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Ledger, ReceiptSplit } from '../utils/event';
+import { CurrencyFormat, currencyFormatFor, formatCurrency } from '../utils/currency';
+
+interface EventLedgerProps {
+  receiptSplits: ReceiptSplit[];
+  ledger: Ledger;
+  /** The ledger's currency. */
+  currency: CurrencyFormat;
+}
+
+
+const EventLedger: React.FC<EventLedgerProps> = ({ receiptSplits, ledger, currency }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="mb-4 p-3 rounded-xl border border-slate-200 dark:border-slate-700 text-sm">
+      <button onClick={() => setIsExpanded(prev => !prev)} className="w-full flex justify-between items-center font-semibold text-slate-700 dark:text-slate-200">
+        <span>
+          All Receipts
+          <span className="ml-1 text-xs font-normal text-slate-500">({receiptSplits.length} receipts, {formatCurrency(ledger.total, currency)})</span>
+        </span>
+        <span className="text-xs font-normal text-slate-500">{isExpanded ? 'Hide' : 'Show'}</span>
+      </button>
+      {isExpanded && (
+        <div className="mt-2 overflow-x-auto">
+          {ledger.missing_rates.length > 0 && (
+            <p className="mb-1 text-xs text-amber-600 dark:text-amber-400">
+              Receipts in {ledger.missing_rates.join(', ')} are not in the totals until they have a rate to {ledger.currency}.
+            </p>
+          )}
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-slate-500 dark:text-slate-400">
+                <th className="text-left font-semibold py-1 pr-2">Person</th>
+                {receiptSplits.map(split => (
+                  <th key={split.id} className="text-right font-semibold py-1 px-2">{split.name}</th>
+                ))}
+                <th className="text-right font-semibold py-1 pl-2">Total</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-700 dark:text-slate-200">
+              {ledger.rows.map(row => (
+                <tr key={row.person_name} className="border-t border-slate-200 dark:border-slate-700">
+                  <td className="py-1 pr-2 font-semibold">{row.person_name}</td>
+                  {receiptSplits.map(split => (
+                    <td key={split.id} className="text-right py-1 px-2">
+                      {row.by_receipt[split.id] === undefined ? '-' : formatCurrency(row.by_receipt[split.id], currencyFormatFor(split.currency))}
+                      {split.currency !== ledger.currency && row.converted_by_receipt[split.id] !== undefined && (
+                        <span className="block text-slate-500 dark:text-slate-400">≈ {formatCurrency(row.converted_by_receipt[split.id], currency)}</span>
+                      )}
+                    </td>
+                  ))}
+                  <td className="text-right py-1 pl-2 font-bold text-indigo-600 dark:text-indigo-400">{formatCurrency(row.total, currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventLedger;
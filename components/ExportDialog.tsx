@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { SavedTab } from '../types';
+import { tabToText, tabToCsv, tabToJson, tabToPrintHtml, exportFileName } from '../utils/tabExport';
+import { downloadFile } from '../utils/file';
+import { buildShareLink, LONG_LINK_LENGTH } from '../utils/shareLink';
+import { XCircleIcon } from './icons';
+
+interface ExportDialogProps {
+  tab: SavedTab;
+  onClose: () => void;
+}
+
+const buttonClass = 'px-3 py-2 text-sm font-semibold text-indigo-600 dark:text-indigo-300 bg-white dark:bg-slate-700 rounded-lg border border-indigo-200 dark:border-slate-600 hover:bg-indigo-50';
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ tab, onClose }) => {
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const text = tabToText(tab);
+  // The Web Share API is mostly there on phones, where it opens the share sheet.
+  const canShare = typeof navigator.share === 'function';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setStatus('Copied. Paste it into the group chat.');
+      setError(null);
+    } catch {
+      setError('Could not copy. Select the text below and copy it instead.');
+    }
+  };
+
+  const handleShare = async () => {
+    try {
+      await navigator.share({ title: tab.name, text });
+    } catch (err: any) {
+      // Closing the share sheet without picking anything is not an error.
+      if (err?.name !== 'AbortError') setError(err.message || 'Could not share the tab.');
+    }
+  };
+
+  const handleDownloadJson = async () => {
+    try {
+      downloadFile(await tabToJson(tab), exportFileName(tab, 'json'), 'application/json');
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Could not build the JSON file.');
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      const link = await buildShareLink(tab, window.location.origin + window.location.pathname);
+      await navigator.clipboard.writeText(link);
+      setStatus(link.length > LONG_LINK_LENGTH
+        ? 'Link copied. It is long, so some chat apps may cut it short; send the JSON file if it does not open.'
+        : 'Link copied. Anyone with it can see the split read-only.');
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Could not make a share link.');
+    }
+  };
+
+  const handlePrint = () => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      setError('The print view was blocked. Allow pop-ups for this site and try again.');
+      return;
+    }
+    printWindow.document.write(tabToPrintHtml(tab));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 bg-slate-900/50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-lg max-h-full flex flex-col bg-white dark:bg-slate-800 rounded-xl shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white">Export Tab</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600" aria-label="Close export">
+            <XCircleIcon className="h-6 w-6" />
+          </button>
+        </div>
+        <div className="flex-grow overflow-y-auto p-4 space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {canShare && (
+              <button onClick={handleShare} className="px-3 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700">
+                Share
+              </button>
+            )}
+            <button onClick={handleCopy} className={buttonClass}>Copy message</button>
+            <button onClick={handleCopyLink} className={buttonClass}>Copy link</button>
+            <button onClick={() => downloadFile(tabToCsv(tab), exportFileName(tab, 'csv'), 'text/csv')} className={buttonClass}>CSV</button>
+            <button onClick={handleDownloadJson} className={buttonClass}>JSON</button>
+            <button onClick={handlePrint} className={buttonClass}>Print / PDF</button>
+          </div>
+          {status && <p className="text-xs text-green-600 dark:text-green-400">{status}</p>}
+          {error && <p className="text-xs text-red-500">{error}</p>}
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            The JSON file keeps everything about the tab except the receipt photos, and can be imported again from History. To get a PDF, choose "Save as PDF" when the print view opens.
+          </p>
+          <pre className="p-3 text-xs whitespace-pre-wrap bg-slate-100 dark:bg-slate-900 rounded-lg text-slate-700 dark:text-slate-200">{text}</pre>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { FxSettings } from '../types';
+import { COMMON_CURRENCIES, currencyLabel } from '../utils/currency';
+import { findRate, parseRatesFile, setRate } from '../utils/fx';
+import { setHomeCurrency } from '../services/preferences';
+
+interface FxPanelProps {
+  fx: FxSettings;
+  onChange: (fx: FxSettings) => void;
+  homeCurrency: string;
+  /** The currencies of the event's receipts. */
+  receiptCurrencies: string[];
+  people: string[];
+}
+
+const inputClass = 'min-w-0 p-1 text-xs border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700';
+
+const FxPanel: React.FC<FxPanelProps> = ({ fx, onChange, homeCurrency, receiptCurrencies, people }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const currencies = Array.from(new Set([homeCurrency, ...receiptCurrencies, ...COMMON_CURRENCIES.map(common => common.currency)]));
+  // Every currency anyone needs converting from or into, each priced in the home currency.
+  const foreign = Array.from(new Set([...receiptCurrencies, ...Object.values(fx.person_currencies)])).filter(code => code !== homeCurrency);
+  const missing = foreign.filter(code => findRate(fx.rates, code, homeCurrency) === null);
+
+  const handleHomeCurrencyChange = (currency: string) => {
+    onChange({ ...fx, home_currency: currency });
+    setHomeCurrency(currency);
+  };
+
+  const handleRateChange = (from: string, value: string) => {
+    const rate = Number(value);
+    if (!Number.isFinite(rate) || rate <= 0) return;
+    onChange({ ...fx, rates: setRate(fx.rates, { from, to: homeCurrency, rate, source: 'manual' }) });
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseRatesFile(await file.text());
+      onChange({ ...fx, rates: imported.reduce(setRate, fx.rates) });
+      setImportError(null);
+    } catch (err: any) {
+      setImportError(err.message || 'Could not read the rates file.');
+    }
+  };
+
+  const handlePersonCurrencyChange = (name: string, currency: string) => {
+    const { [name]: _, ...others } = fx.person_currencies;
+    onChange({ ...fx, person_currencies: currency ? { ...others, [name]: currency } : others });
+  };
+
+  const handleCardFeeChange = (name: string, value: string) => {
+    const { [name]: _, ...others } = fx.card_fees;
+    const percent = Number(value);
+    onChange({ ...fx, card_fees: value !== '' && percent > 0 ? { ...others, [name]: percent } : others });
+  };
+
+  return (
+    <div className="mb-4 p-3 rounded-xl border border-slate-200 dark:border-slate-700 text-sm">
+      <button onClick={() => setIsExpanded(prev => !prev)} className="w-full flex justify-between items-center font-semibold text-slate-700 dark:text-slate-200">
+        <span>
+          Currencies
+          <span className="ml-1 text-xs font-normal text-slate-500">(settling up in {homeCurrency})</span>
+          {missing.length > 0 && (
+            <span className="ml-1 text-xs font-normal text-amber-600 dark:text-amber-400">{missing.join(', ')} needs a rate</span>
+          )}
+        </span>
+        <span className="text-xs font-normal text-slate-500">{isExpanded ? 'Hide' : 'Show'}</span>
+      </button>
+      {isExpanded && (
+        <div className="mt-2 space-y-3">
+          <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-400">
+            Settle up in
+            <select value={homeCurrency} onChange={(e) => handleHomeCurrencyChange(e.target.value)} className={inputClass}>
+              {currencies.map(code => <option key={code} value={code}>{currencyLabel(code)}</option>)}
+            </select>
+          </label>
+
+          <div>
+            <p className="text-xs font-semibold text-slate-600 dark:text-slate-400 mb-1">Exchange rates</p>
+            {foreign.length === 0 && (
+              <p className="text-xs text-slate-500 dark:text-slate-400">Every receipt is in {homeCurrency}, so nothing needs converting.</p>
+            )}
+            {foreign.map(code => {
+              const rate = findRate(fx.rates, code, homeCurrency);
+              const entered = fx.rates.find(r => r.from === code && r.to === homeCurrency);
+              return (
+                <label key={code} className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300 mb-1">
+                  1 {code} =
+                  <input
+                    // Remount when the rate changes elsewhere, e.g. from an imported file.
+                    key={rate ?? 'none'}
+                    type="number"
+                    min="0"
+                    step="any"
+                    defaultValue={rate ?? ''}
+                    onBlur={(e) => handleRateChange(code, e.target.value)}
+                    placeholder="Rate"
+                    className={`w-24 ${inputClass}`}
+                  />
+                  {homeCurrency}
+                  {rate !== null && entered?.source !== 'manual' && <span className="text-slate-400">(from file)</span>}
+                </label>
+              );
+            })}
+            <label className="inline-block mt-1 text-xs font-semibold text-indigo-600 dark:text-indigo-300 hover:underline cursor-pointer">
+              Import a rates file
+              <input type="file" accept=".json,.csv,.txt" onChange={handleImport} className="hidden" />
+            </label>
+            {importError && <p className="mt-1 text-xs text-red-500">{importError}</p>}
+          </div>
+
+          {people.length > 0 && (
+            <div>
+              <p className="text-xs font-semibold text-slate-600 dark:text-slate-400 mb-1">Each person's currency and card fee</p>
+              {people.map(name => (
+                <div key={name} className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300 mb-1">
+                  <span className="w-20 truncate font-semibold">{name}</span>
+                  <select value={fx.person_currencies[name] ?? ''} onChange={(e) => handlePersonCurrencyChange(name, e.target.value)} className={inputClass}>
+                    <option value="">{homeCurrency}</option>
+                    {currencies.filter(code => code !== homeCurrency).map(code => <option key={code} value={code}>{code}</option>)}
+                  </select>
+                  <input
+                    key={fx.card_fees[name] ?? 'none'}
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    defaultValue={fx.card_fees[name] ?? ''}
+                    onBlur={(e) => handleCardFeeChange(name, e.target.value)}
+                    placeholder="Fee %"
+                    className={`w-16 ${inputClass}`}
+                  />
+                  % card fee
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FxPanel;
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { ReceiptData } from '../types';
+import { parseReceiptText } from '../utils/textReceiptParser';
+import { addItem } from '../utils/receipt';
+import ReceiptEditor from './ReceiptEditor';
+
+interface ManualEntryProps {
+  onCreate: (receiptData: ReceiptData) => void;
+  onCancel: () => void;
+}
+
+const emptyReceipt = (): ReceiptData => ({
+  items: addItem([]),
+  adjustments: [],
+  subtotal: 0,
+  tax: 0,
+  tip: 0,
+  total: 0,
+});
+
+const ManualEntry: React.FC<ManualEntryProps> = ({ onCreate, onCancel }) => {
+  const [draft, setDraft] = useState<ReceiptData | null>(null);
+  const [pastedText, setPastedText] = useState('');
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const handleParse = () => {
+    const parsed = parseReceiptText(pastedText);
+    if (parsed.items.length === 0) {
+      setParseError("Couldn't find any lines ending in a price. Check the text or enter the lines by hand.");
+      return;
+    }
+    setParseError(null);
+    setDraft(parsed);
+  };
+
+  if (draft) {
+    return (
+      <div className="p-6 bg-white dark:bg-slate-800 rounded-xl shadow-inner h-full flex flex-col">
+        <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-4">Enter Receipt</h2>
+        <ReceiptEditor receiptData={draft} onSave={onCreate} onCancel={() => setDraft(null)} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full p-6 bg-white dark:bg-slate-800 rounded-xl shadow-inner">
+      <h2 className="text-xl font-bold text-slate-900 dark:text-white">Enter Receipt</h2>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mt-2">
+        Paste the text of a receipt, one line per item with the price at the end, or build it line by line. Nothing leaves your device.
+      </p>
+      <textarea
+        value={pastedText}
+        onChange={(e) => setPastedText(e.target.value)}
+        placeholder={"2 x Castle Lager  70.00\nBurger  120.00\nSubtotal  190.00\nTotal  190.00"}
+        className="flex-grow mt-4 p-3 text-sm font-mono border border-slate-300 dark:border-slate-600 rounded-lg bg-slate-100 dark:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      />
+      {parseError && <p className="mt-2 text-sm text-red-500">{parseError}</p>}
+      <div className="flex gap-2 mt-4">
+        <button
+          onClick={handleParse}
+          disabled={!pastedText.trim()}
+          className="flex-grow px-4 py-2 text-sm font-semibold text-white bg-indigo-500 rounded-lg hover:bg-indigo-600 disabled:bg-indigo-300 disabled:cursor-not-allowed"
+        >
+          Read Text
+        </button>
+        <button onClick={() => setDraft(emptyReceipt())} className="px-4 py-2 text-sm font-semibold text-indigo-600 bg-indigo-50 dark:bg-slate-700 dark:text-indigo-300 rounded-lg hover:bg-indigo-100">
+          Line by Line
+        </button>
+        <button onClick={onCancel} className="px-4 py-2 text-sm font-semibold text-slate-600 bg-slate-200 dark:text-slate-300 dark:bg-slate-600 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-500">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ManualEntry;
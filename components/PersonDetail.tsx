@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { AssignedItem, PersonSplit, ReceiptData, TabPolicy, ChargeSplitMode } from '../types';
+import { getEffectiveCharges } from '../utils/splitEngine';
+import { toMinor } from '../utils/money';
+import { CurrencyFormat, currencyDigits, formatCurrency } from '../utils/currency';
+
+interface PersonDetailProps {
+  split: PersonSplit;
+  receiptData: ReceiptData;
+  policy: TabPolicy;
+  currency: CurrencyFormat;
+  /** Everyone else on the tab, who this person can be merged into. */
+  otherPeople: string[];
+  disabled: boolean;
+  onShowLine: (itemId: string) => void;
+  onRename: () => void;
+  onMerge: (into: string) => void;
+  onRemove: () => void;
+}
+
+/**
+ * How much of a line someone has, e.g. "1/3" or "40%". Shares are allocated
+ * to the cent, so a fraction counts if it is within a cent of the amount.
+ */
+const shareFraction = (item: AssignedItem, line: { price: number; quantity: number } | undefined, digits: number): string => {
+  if (!line || line.price === 0) return '';
+  if (item.units) return `${item.units} of ${line.quantity}`;
+  const partMinor = toMinor(item.price, digits);
+  const wholeMinor = toMinor(line.price, digits);
+  if (Math.abs(partMinor - wholeMinor) <= 1) return 'all';
+  for (let n = 2; n <= 12; n++) {
+    const k = Math.round((partMinor * n) / wholeMinor);
+    if (k > 0 && k < n && Math.abs(partMinor - (wholeMinor * k) / n) <= 1) return `${k}/${n}`;
+  }
+  return `${Math.round((partMinor / wholeMinor) * 100)}%`;
+};
+
+const percentOf = (part: number, whole: number) =>
+  whole === 0 ? '' : `${Math.round((part / whole) * 1000) / 10}% of`;
+
+const BASIS: Record<ChargeSplitMode, string> = {
+  proportional: 'by what they had',
+  equal: 'split equally',
+};
+
+const PersonDetail: React.FC<PersonDetailProps> = ({
+  split,
+  receiptData,
+  policy,
+  currency,
+  otherPeople,
+  disabled,
+  onShowLine,
+  onRename,
+  onMerge,
+  onRemove,
+}) => {
+  const [mergeInto, setMergeInto] = useState('');
+  const charges = getEffectiveCharges(receiptData, policy);
+  const digits = currencyDigits(currency.currency);
+  const isTipExempt = policy.tip_exempt.includes(split.person_name);
+
+  // Each charge with the person's part of it and how that part was worked out.
+  const attribution: [string, number, string][] = [
+    ['Discounts', -split.discount, `${percentOf(split.discount, charges.discounts)} the discounts on their lines`],
+    ['Tax', split.tax, `${percentOf(split.tax, charges.tax)} the tax, ${BASIS.proportional}`],
+    ['Service', split.service_charge, `${percentOf(split.service_charge, charges.service_charge)} the service charge, ${BASIS[policy.service_split]}`],
+    ['Cover', split.cover_charge, `${percentOf(split.cover_charge, charges.cover_charge)} the cover charge, ${BASIS[policy.cover_split]}`],
+    ['Tip', split.tip, isTipExempt && split.tip === 0
+      ? 'exempt from the tip'
+      : `${percentOf(split.tip, charges.tip)} the ${policy.tip_percent !== null ? `${policy.tip_percent}% ` : ''}tip, ${BASIS[policy.tip_split]}`],
+    ['Rounding', split.adjustment, 'to match the printed total'],
+  ];
+  const buttonClass = 'px-2 py-0.5 text-xs font-semibold text-indigo-600 dark:text-indigo-300 bg-white dark:bg-slate-700 rounded border border-indigo-200 dark:border-slate-600 hover:bg-indigo-50 disabled:text-slate-400 disabled:cursor-not-allowed';
+
+  return (
+    <div className="mt-3 pt-3 border-t border-slate-200 dark:border-slate-600 text-xs text-slate-600 dark:text-slate-300 space-y-3">
+      <table className="w-full">
+        <tbody>
+          {split.items.map(item => {
+            const line = receiptData.items.find(i => i.id === item.item_id);
+            return (
+              <tr key={item.item_id}>
+                <td className="py-0.5">
+                  <button onClick={() => onShowLine(item.item_id)} className="text-left text-indigo-600 dark:text-indigo-300 hover:underline" title="Show on the receipt">
+                    {item.item_name}
+                  </button>
+                </td>
+                <td className="py-0.5 px-2 text-right text-slate-500 dark:text-slate-400">
+                  {shareFraction(item, line, digits)}{line && ` of ${formatCurrency(line.price, currency)}`}
+                </td>
+                <td className="py-0.5 text-right font-semibold">{formatCurrency(item.price, currency)}</td>
+              </tr>
+            );
+          })}
+          <tr className="border-t border-slate-200 dark:border-slate-600">
+            <td className="py-0.5 font-semibold" colSpan={2}>Subtotal</td>
+            <td className="py-0.5 text-right font-semibold">{formatCurrency(split.subtotal, currency)}</td>
+          </tr>
+          {attribution
+            .filter(([label, amount]) => amount !== 0 || label === 'Tax' || label === 'Tip')
+            .map(([label, amount, note]) => (
+              <tr key={label}>
+                <td className="py-0.5">{label}</td>
+                <td className="py-0.5 px-2 text-right text-slate-500 dark:text-slate-400">{note}</td>
+                <td className="py-0.5 text-right">{formatCurrency(amount, currency)}</td>
+              </tr>
+            ))}
+          <tr className="border-t border-slate-200 dark:border-slate-600">
+            <td className="py-0.5 font-bold" colSpan={2}>Total</td>
+            <td className="py-0.5 text-right font-bold text-indigo-600 dark:text-indigo-400">{formatCurrency(split.total, currency)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={onRename} disabled={disabled} className={buttonClass}>Rename</button>
+        {otherPeople.length > 0 && (
+          <>
+            <select
+              value={mergeInto}
+              onChange={(e) => setMergeInto(e.target.value)}
+              disabled={disabled}
+              className="min-w-0 p-1 text-xs border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700"
+              aria-label={`Merge ${split.person_name} into`}
+            >
+              <option value="">Merge into...</option>
+              {otherPeople.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+            <button onClick={() => mergeInto && onMerge(mergeInto)} disabled={disabled || !mergeInto} className={buttonClass}>Merge</button>
+          </>
+        )}
+        <button onClick={onRemove} disabled={disabled} className={`${buttonClass} ml-auto`}>Remove</button>
+      </div>
+    </div>
+  );
+};
+
+export default PersonDetail;
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { BillSplit, ItemAssignment, ReceiptData, SplitProposal } from '../types';
+import { changedItemIds, getItemShares, setItemAssignment } from '../utils/splitEngine';
+import { parseShareInput, formatShareInput, shareInputHint } from '../utils/shareInput';
+import { diffSplits } from '../utils/splitDiff';
+import { currencyFormatOf, receiptDigits } from '../utils/currency';
+import SplitDiffView from './SplitDiffView';
+
+interface ProposalCardProps {
+  receiptData: ReceiptData;
+  proposal: SplitProposal;
+  computeSplit: (assignments: ItemAssignment[]) => BillSplit;
+  onChange: (proposal: SplitProposal) => void;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+const ProposalCard: React.FC<ProposalCardProps> = ({ receiptData, proposal, computeSplit, onChange, onAccept, onReject }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  // Lines stay editable once touched, even if an edit puts them back as they were.
+  const [editableIds] = useState(() => changedItemIds(proposal.base, proposal.assignments));
+
+  const currency = currencyFormatOf(receiptData);
+  const diff = diffSplits(computeSplit(proposal.base), computeSplit(proposal.assignments), receiptDigits(receiptData));
+
+  const handleSharesChange = (itemId: string, input: string) => {
+    onChange({ ...proposal, assignments: setItemAssignment(proposal.assignments, itemId, parseShareInput(input, currency)) });
+  };
+
+  const itemName = (itemId: string) => receiptData.items.find(item => item.id === itemId)?.item_name ?? itemId;
+
+  return (
+    <div className="p-4 rounded-xl bg-white dark:bg-slate-700 border-2 border-indigo-300 dark:border-indigo-500 shadow-sm">
+      <p className="text-xs font-semibold uppercase tracking-wide text-indigo-600 dark:text-indigo-300 mb-2">Proposed change</p>
+      <SplitDiffView diff={diff} currency={currency} />
+      {isEditing && (
+        <div className="mt-3 space-y-2">
+          {editableIds.map(itemId => (
+            <label key={itemId} className="block text-xs text-slate-600 dark:text-slate-300">
+              {itemName(itemId)}
+              <input
+                type="text"
+                defaultValue={formatShareInput(getItemShares(proposal.assignments, itemId))}
+                onBlur={(e) => handleSharesChange(itemId, e.target.value)}
+                placeholder="Nobody"
+                className="mt-1 w-full p-2 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-slate-100 dark:bg-slate-800 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </label>
+          ))}
+          <p className="text-xs text-slate-500 dark:text-slate-400">{shareInputHint(currency)}</p>
+        </div>
+      )}
+      <div className="flex gap-2 mt-3">
+        <button onClick={onAccept} className="px-3 py-1 text-sm font-semibold text-white bg-indigo-500 rounded-md hover:bg-indigo-600">Accept</button>
+        {!isEditing && (
+          <button onClick={() => setIsEditing(true)} className="px-3 py-1 text-sm font-semibold text-indigo-600 bg-indigo-50 dark:bg-slate-600 dark:text-indigo-200 rounded-md hover:bg-indigo-100">Edit</button>
+        )}
+        <button onClick={onReject} className="px-3 py-1 text-sm font-semibold text-slate-600 bg-slate-200 dark:text-slate-300 dark:bg-slate-600 rounded-md hover:bg-slate-300 dark:hover:bg-slate-500">Reject</button>
+      </div>
+    </div>
+  );
+};
+
+export default ProposalCard;
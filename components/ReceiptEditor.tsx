@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { ReceiptData, ReceiptItem } from '../types';
+import { MergedLines, addItem, deleteItem, mergeItems, recordMerge, splitItem, updateItem } from '../utils/receipt';
+import { getExpectedTotal } from '../utils/receiptValidation';
+import { toMinor, fromMinor } from '../utils/money';
+import { amountStep, currencyFormatOf, formatCurrency, receiptDigits } from '../utils/currency';
+import CurrencyPicker from './CurrencyPicker';
+import { TrashIcon, PlusCircleIcon } from './icons';
+
+interface ReceiptEditorProps {
+  receiptData: ReceiptData;
+  /** `merged` says which lines were merged into which, so their assignments can follow. */
+  onSave: (receiptData: ReceiptData, merged: MergedLines) => void;
+  onCancel: () => void;
+}
+
+const inputClassName = "p-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-slate-100 dark:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+type TotalField = 'subtotal' | 'tax' | 'service_charge' | 'cover_charge' | 'tip' | 'total';
+
+const TOTAL_FIELDS: { field: TotalField; label: string }[] = [
+  { field: 'subtotal', label: 'Subtotal' },
+  { field: 'tax', label: 'Tax' },
+  { field: 'service_charge', label: 'Service charge' },
+  { field: 'cover_charge', label: 'Cover charge' },
+  { field: 'tip', label: 'Tip' },
+  { field: 'total', label: 'Total' },
+];
+
+const ReceiptEditor: React.FC<ReceiptEditorProps> = ({ receiptData, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<ReceiptData>(receiptData);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [merged, setMerged] = useState<MergedLines>({});
+
+  const setItems = (update: (items: ReceiptItem[]) => ReceiptItem[]) => {
+    setDraft(prev => ({ ...prev, items: update(prev.items) }));
+  };
+
+  const toggleSelected = (itemId: string) => {
+    setSelectedIds(prev => (prev.includes(itemId) ? prev.filter(id => id !== itemId) : [...prev, itemId]));
+  };
+
+  const handleMerge = () => {
+    setMerged(prev => recordMerge(prev, draft.items, selectedIds));
+    setItems(items => mergeItems(items, selectedIds, digits));
+    setSelectedIds([]);
+  };
+
+  // Live reconciliation: the lines against the printed subtotal, and the
+  // printed parts against the printed total.
+  const currency = currencyFormatOf(draft);
+  const digits = receiptDigits(draft);
+  const itemsMinor = draft.items.reduce((acc, item) => acc + toMinor(item.price, digits), 0);
+  const expectedTotalMinor = toMinor(getExpectedTotal(draft), digits);
+  const subtotalGap = fromMinor(toMinor(draft.subtotal, digits) - itemsMinor, digits);
+  const totalGap = fromMinor(toMinor(draft.total, digits) - expectedTotalMinor, digits);
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-grow overflow-y-auto pr-2 -mr-2 space-y-2">
+        {draft.items.map(item => (
+          <div key={item.id} className="flex items-center gap-2">
+            <input type="checkbox" checked={selectedIds.includes(item.id)} onChange={() => toggleSelected(item.id)} aria-label={`Select ${item.item_name} to merge`} />
+            <input
+              type="number"
+              min="0"
+              value={item.quantity}
+              onChange={(e) => setItems(items => updateItem(items, item.id, { quantity: Math.max(Number(e.target.value), 0) }))}
+              className={`${inputClassName} w-14`}
+              aria-label="Quantity"
+            />
+            <input
+              type="text"
+              value={item.item_name}
+              onChange={(e) => setItems(items => updateItem(items, item.id, { item_name: e.target.value }))}
+              placeholder="Item name"
+              className={`${inputClassName} flex-grow min-w-0`}
+              aria-label="Item name"
+            />
+            <input
+              type="number"
+              step={amountStep(currency)}
+              value={item.price}
+              onChange={(e) => setItems(items => updateItem(items, item.id, { price: Number(e.target.value) }))}
+              className={`${inputClassName} w-24`}
+              aria-label="Price"
+            />
+            {item.quantity > 1 && (
+              <button onClick={() => setItems(items => splitItem(items, item.id, digits))} className="text-xs font-semibold text-slate-500 hover:text-indigo-500" title="Split one unit onto its own line">
+                Split
+              </button>
+            )}
+            <button onClick={() => setItems(items => deleteItem(items, item.id))} className="text-slate-400 hover:text-red-500" aria-label="Delete line">
+              <TrashIcon className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+        <div className="flex gap-4 pt-2">
+          <button onClick={() => setItems(addItem)} className="flex items-center gap-1 text-sm font-semibold text-slate-500 hover:text-indigo-500">
+            <PlusCircleIcon className="h-5 w-5" /> Add line
+          </button>
+          {selectedIds.length > 1 && (
+            <button onClick={handleMerge} className="text-sm font-semibold text-slate-500 hover:text-indigo-500">
+              Merge {selectedIds.length} lines
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="mt-auto pt-4 border-t-2 border-slate-200 dark:border-slate-700 space-y-2 text-sm">
+        {TOTAL_FIELDS.map(({ field, label }) => (
+          <div key={field} className="flex justify-between items-center">
+            <span className="text-slate-600 dark:text-slate-400">{label}</span>
+            <input
+              type="number"
+              step={amountStep(currency)}
+              value={draft[field] ?? 0}
+              onChange={(e) => setDraft(prev => ({ ...prev, [field]: Number(e.target.value) }))}
+              className={`${inputClassName} w-28 text-right`}
+              aria-label={label}
+            />
+          </div>
+        ))}
+        <p className={`text-xs ${subtotalGap === 0 ? 'text-green-600 dark:text-green-400' : 'text-amber-600 dark:text-amber-400'}`}>
+          Lines add up to {formatCurrency(fromMinor(itemsMinor, digits), currency)}
+          {subtotalGap !== 0 && `, ${formatCurrency(Math.abs(subtotalGap), currency)} ${subtotalGap > 0 ? 'short of' : 'over'} the subtotal`}
+          {subtotalGap !== 0 && (
+            <button onClick={() => setDraft(prev => ({ ...prev, subtotal: fromMinor(itemsMinor, digits) }))} className="ml-2 font-semibold underline">Use as subtotal</button>
+          )}
+        </p>
+        <p className={`text-xs ${totalGap === 0 ? 'text-green-600 dark:text-green-400' : 'text-amber-600 dark:text-amber-400'}`}>
+          Subtotal, discounts and charges come to {formatCurrency(fromMinor(expectedTotalMinor, digits), currency)}
+          {totalGap !== 0 && `, ${formatCurrency(Math.abs(totalGap), currency)} ${totalGap > 0 ? 'short of' : 'over'} the total`}
+          {totalGap !== 0 && (
+            <button onClick={() => setDraft(prev => ({ ...prev, total: fromMinor(expectedTotalMinor, digits) }))} className="ml-2 font-semibold underline">Use as total</button>
+          )}
+        </p>
+        <CurrencyPicker value={currency} onChange={format => setDraft(prev => ({ ...prev, ...format }))} />
+        <div className="flex gap-2 pt-2">
+          <button onClick={() => onSave(draft, merged)} className="flex-grow px-3 py-2 text-sm font-semibold text-white bg-indigo-500 rounded-md hover:bg-indigo-600">Save Receipt</button>
+          <button onClick={onCancel} className="px-3 py-2 text-sm font-semibold text-slate-600 bg-slate-200 dark:text-slate-300 dark:bg-slate-600 rounded-md hover:bg-slate-300 dark:hover:bg-slate-500">Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptEditor;
@@ -1,8 +1,22 @@
 
-import React, { useState, useMemo } from 'react';
-import { ReceiptData, BillSplit, ReceiptItem, PersonSplit, ChatMessage } from '../types';
+import React, { useState, useEffect } from 'react';
+import { ReceiptData, ReceiptItem, ReceiptAdjustment, ReceiptImage, ChatMessage, ItemAssignment, ItemShare, TabPolicy, ChargeSplitMode, Roster } from '../types';
 import { fileToBase64 } from '../utils/file';
-import { parseReceipt } from '../services/geminiService';
+import { computeBillSplit, setItemAssignment, getItemShares, getEffectiveCharges, AllocationProgress } from '../utils/splitEngine';
+import { parseShareInput, formatShareInput, shareInputHint } from '../utils/shareInput';
+import { MergedLines, carryAssignments, linesOverUnits, pruneAdjustments } from '../utils/receipt';
+import { ValidationIssue, ValidationFix } from '../utils/receiptValidation';
+import { RecordAssignments } from '../utils/splitHistory';
+import { rosterNames, assignRemaining, splitEverything, moveItems, removeFromAssignments } from '../utils/roster';
+import { CurrencyFormat, formatCurrency, currencyFormatOf, receiptDigits } from '../utils/currency';
+import { toMinor, fromMinor } from '../utils/money';
+import { getAIProvider } from '../services/aiProvider';
+import AdjustmentsEditor from './AdjustmentsEditor';
+import ReceiptEditor from './ReceiptEditor';
+import ValidationPanel from './ValidationPanel';
+import ManualEntry from './ManualEntry';
+import RosterPanel from './RosterPanel';
+import CurrencyPicker from './CurrencyPicker';
 import { UploadIcon, ReceiptIcon, CheckIcon, PlusCircleIcon, PencilIcon, XCircleIcon } from './icons';
 
 interface ReceiptPanelProps {
@@ -12,37 +26,96 @@ interface ReceiptPanelProps {
   setIsLoading: React.Dispatch<React.SetStateAction<boolean>>;
   error: string | null;
   setError: React.Dispatch<React.SetStateAction<string | null>>;
-  resetState: () => void;
-  billSplit: BillSplit;
-  setBillSplit: React.Dispatch<React.SetStateAction<BillSplit>>;
+  resetReceipt: () => void;
+  assignments: ItemAssignment[];
+  recordAssignments: RecordAssignments;
+  policy: TabPolicy;
+  setPolicy: React.Dispatch<React.SetStateAction<TabPolicy>>;
+  validationIssues: ValidationIssue[];
+  isSplitBlocked: boolean;
+  receiptImage: ReceiptImage | null;
+  setReceiptImage: React.Dispatch<React.SetStateAction<ReceiptImage | null>>;
   setChatMessages: React.Dispatch<React.SetStateAction<ChatMessage[]>>;
+  roster: Roster;
+  setRoster: React.Dispatch<React.SetStateAction<Roster>>;
+  progress: AllocationProgress | null;
+  /** A line to scroll to and highlight, e.g. picked from someone's breakdown. */
+  focusedItemId: string | null;
 }
 
+const SplitModeSelect = ({ value, onChange }: { value: ChargeSplitMode; onChange: (mode: ChargeSplitMode) => void }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value as ChargeSplitMode)}
+    className="ml-2 text-xs p-0.5 border border-slate-300 dark:border-slate-600 rounded bg-slate-100 dark:bg-slate-700"
+  >
+    <option value="proportional">By items</option>
+    <option value="equal">Equally</option>
+  </select>
+);
+
 const ReceiptPanel: React.FC<ReceiptPanelProps> = ({
   receiptData,
   setReceiptData,
   isLoading,
   setIsLoading,
   setError,
-  resetState,
-  billSplit,
-  setBillSplit,
+  resetReceipt,
+  assignments,
+  recordAssignments,
+  policy,
+  setPolicy,
+  validationIssues,
+  isSplitBlocked,
+  receiptImage,
+  setReceiptImage,
   setChatMessages,
+  roster,
+  setRoster,
+  progress,
+  focusedItemId,
 }) => {
-  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editingItemId, setEditingItemId] = useState<string | null>(null);
   const [assigneeInput, setAssigneeInput] = useState('');
+  const [isEditingReceipt, setIsEditingReceipt] = useState(false);
+  const [isManualEntry, setIsManualEntry] = useState(false);
+  const [isPhotoOpen, setIsPhotoOpen] = useState(false);
+  const [isRosterOpen, setIsRosterOpen] = useState(false);
+  // The tip fields are drafts until they lose focus, and follow the policy when
+  // it changes elsewhere, e.g. a person is renamed or another tab is opened.
+  const [tipPercentInput, setTipPercentInput] = useState(policy.tip_percent?.toString() ?? '');
+  const [tipExemptInput, setTipExemptInput] = useState(policy.tip_exempt.join(', '));
+
+  useEffect(() => {
+    setTipPercentInput(policy.tip_percent?.toString() ?? '');
+  }, [policy.tip_percent]);
+
+  useEffect(() => {
+    setTipExemptInput(policy.tip_exempt.join(', '));
+  }, [policy.tip_exempt]);
+
+  useEffect(() => {
+    if (!focusedItemId) return;
+    setIsEditingReceipt(false);
+    // Wait a frame so a panel that was hidden on mobile is laid out first.
+    requestAnimationFrame(() => {
+      document.getElementById(`receipt-line-${focusedItemId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
+  }, [focusedItemId]);
 
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      resetState();
+      resetReceipt();
+      setIsEditingReceipt(false);
       setIsLoading(true);
       setError(null);
       try {
         const base64Data = await fileToBase64(file);
         const mimeType = file.type;
-        const parsedData = await parseReceipt({ inlineData: { data: base64Data, mimeType } });
+        const parsedData = await getAIProvider().parseReceipt({ inlineData: { data: base64Data, mimeType } });
         setReceiptData(parsedData);
+        setReceiptImage({ data: base64Data, mimeType });
       } catch (err: any) {
         setError(err.message || 'An unknown error occurred.');
         console.error(err);
@@ -52,20 +125,25 @@ const ReceiptPanel: React.FC<ReceiptPanelProps> = ({
     }
   };
 
+  const handleManualReceipt = (manualData: ReceiptData) => {
+    resetReceipt();
+    setIsManualEntry(false);
+    setIsEditingReceipt(false);
+    setReceiptData(manualData);
+  };
+
   const handleUploadClick = () => {
     document.getElementById('file-upload-input')?.click();
   };
 
-  const formatCurrency = (amount: number) => {
-    return amount.toLocaleString('en-ZA', { style: 'currency', currency: 'ZAR' });
-  };
+  const currency = currencyFormatOf(receiptData);
 
   const UploadPlaceholder = () => (
     <div className="flex flex-col items-center justify-center h-full text-center p-8">
       <UploadIcon className="h-20 w-20 text-slate-400 dark:text-slate-500 mb-6" />
       <h3 className="text-xl font-semibold text-slate-700 dark:text-slate-300">Upload Receipt</h3>
       <p className="text-sm text-slate-500 dark:text-slate-400 mt-2 max-w-xs">
-        Click the button below to upload an image of your receipt to get started.
+        Click the button below to upload an image of your receipt to get started, or type it in without any AI.
       </p>
       <button
         onClick={handleUploadClick}
@@ -74,6 +152,13 @@ const ReceiptPanel: React.FC<ReceiptPanelProps> = ({
       >
         {isLoading ? 'Processing...' : 'Select Image'}
       </button>
+      <button
+        onClick={() => setIsManualEntry(true)}
+        disabled={isLoading}
+        className="mt-4 text-sm font-semibold text-indigo-600 dark:text-indigo-400 hover:underline disabled:text-slate-400 disabled:cursor-not-allowed"
+      >
+        No photo? Type it in
+      </button>
       <input
         type="file"
         id="file-upload-input"
@@ -84,75 +169,91 @@ const ReceiptPanel: React.FC<ReceiptPanelProps> = ({
     </div>
   );
 
-  const ReceiptDisplay = ({ data, billSplit, setBillSplit }: { data: ReceiptData; billSplit: BillSplit; setBillSplit: React.Dispatch<React.SetStateAction<BillSplit>> }) => {
-    const assignedItemsMap = useMemo(() => {
-        const map = new Map<string, string[]>();
-        billSplit.forEach(person => {
-            person.items.forEach(item => {
-                const people = map.get(item.item_name) || [];
-                if (!people.includes(person.person_name)) {
-                    people.push(person.person_name);
-                }
-                map.set(item.item_name, people);
-            });
-        });
-        return map;
-    }, [billSplit]);
+  // A render function rather than a nested component: a component declared
+  // here would be a new type on every render, and React would remount it and
+  // throw away the editors' drafts whenever anything in the app changed.
+  const renderReceipt = (data: ReceiptData) => {
+    const assignedItemsMap = new Map<string, ItemShare[]>();
+    data.items.forEach(item => {
+        assignedItemsMap.set(item.id, getItemShares(assignments, item.id));
+    });
 
-    const recalculateBillSplit = (currentSplit: BillSplit): BillSplit => {
-        if (!data || data.subtotal === 0) return currentSplit;
+    const handleAssignmentChange = (item: ReceiptItem, shares: ItemShare[]) => {
+        // The split engine derives every amount from the assignments, so a
+        // manual edit only needs to record who had the item.
+        const message = shares.length > 0
+            ? `Manually assigned ${item.item_name} to ${formatShareInput(shares)}.`
+            : `Manually unassigned ${item.item_name}.`;
+        const versionId = recordAssignments(prev => setItemAssignment(prev, item.id, shares), 'manual', message);
+        setChatMessages(prev => [...prev, { sender: 'system', text: message, version_id: versionId }]);
+    };
+    
+    const charges = getEffectiveCharges(data, policy);
 
-        const newSplit = currentSplit.map(person => {
-            const subtotal = person.items.reduce((acc, item) => acc + item.price, 0);
-            const taxRatio = subtotal / data.subtotal;
-            const tax = data.tax * taxRatio;
-            const tip = data.tip * taxRatio;
-            const total = subtotal + tax + tip;
-            return { ...person, subtotal, tax, tip, total };
-        });
-        
-        return newSplit;
+    const handleReceiptSave = (updated: ReceiptData, merged: MergedLines) => {
+        // Merged lines take over the assignments and adjustments of the lines
+        // merged into them; deleted lines lose theirs. Everything else keeps
+        // its line id.
+        setReceiptData({ ...updated, adjustments: pruneAdjustments(updated.adjustments ?? [], updated.items, merged) });
+        recordAssignments(
+            prev => carryAssignments(data, prev, updated.items, merged),
+            'receipt',
+            'Carried the assignments over the receipt edit.'
+        );
+        setIsEditingReceipt(false);
+        // Splitting a unit off leaves shares by units sized for the old quantity.
+        const overUnits = linesOverUnits(updated.items, carryAssignments(data, assignments, updated.items, merged));
+        setChatMessages(prev => [
+            ...prev,
+            { sender: 'system', text: `Receipt edited by hand: ${updated.items.length} lines, total ${formatCurrency(updated.total, currency)}.` },
+            ...overUnits.map((item): ChatMessage => ({
+                sender: 'system',
+                text: `${item.item_name} now has ${item.quantity}, but its shares claim more units than that. Check who had how many.`,
+            })),
+        ]);
     };
 
-    const handleAssignmentChange = (item: ReceiptItem, names: string[]) => {
-        let tempSplit = JSON.parse(JSON.stringify(billSplit)) as BillSplit;
+    const handleApplyFix = (fix: ValidationFix) => {
+        setReceiptData(prev => (prev ? fix.apply(prev) : prev));
+        setChatMessages(prev => [...prev, { sender: 'system', text: `Receipt fix applied: ${fix.label}.` }]);
+    };
 
-        // 1. Remove the item from everyone to handle edits cleanly
-        tempSplit.forEach(person => {
-            person.items = person.items.filter(i => i.item_name !== item.item_name);
+    // The printed total already has the receipt's own discounts taken off. A
+    // discount added or removed by hand moves the total with it; otherwise the
+    // split would spread it back over everyone as rounding.
+    const handleAdjustmentsChange = (adjustments: ReceiptAdjustment[]) => {
+        setReceiptData(prev => {
+            if (!prev) return prev;
+            const digits = receiptDigits(prev);
+            const next = { ...prev, adjustments };
+            const changeMinor = toMinor(getEffectiveCharges(next, policy).discounts, digits) - toMinor(getEffectiveCharges(prev, policy).discounts, digits);
+            return { ...next, total: fromMinor(toMinor(prev.total, digits) - changeMinor, digits) };
         });
+    };
 
-        // 2. If names are provided, assign the item
-        if (names.length > 0) {
-            const pricePerPerson = item.price / names.length;
-            names.forEach(name => {
-                let person = tempSplit.find(p => p.person_name === name);
-                if (!person) {
-                    person = { person_name: name, items: [], subtotal: 0, tax: 0, tip: 0, total: 0 };
-                    tempSplit.push(person);
-                }
-                person.items.push({ item_name: item.item_name, price: pricePerPerson });
-            });
-        }
-        
-        // 3. Clean up people with no items
-        tempSplit = tempSplit.filter(p => p.items.length > 0);
-        
-        // 4. Recalculate totals and set state
-        const finalSplit = recalculateBillSplit(tempSplit);
-        setBillSplit(finalSplit);
+    const handleCurrencyChange = (format: CurrencyFormat) => {
+        setReceiptData(prev => (prev ? { ...prev, ...format } : prev));
+        setChatMessages(prev => [...prev, { sender: 'system', text: `Currency set to ${format.currency}, shown as ${formatCurrency(1234.5, format)}.` }]);
+    };
 
-        // 5. Log to chat
-        const message = names.length > 0
-            ? `Manually assigned ${item.item_name} to ${names.join(', ')}.`
-            : `Manually unassigned ${item.item_name}.`;
-        setChatMessages(prev => [...prev, { sender: 'system', text: message }]);
+    const updatePolicy = (changes: Partial<TabPolicy>) => {
+        setPolicy(prev => ({ ...prev, ...changes }));
     };
-    
+
+    const people = rosterNames(roster, assignments);
+
+    const recordBulkChange = (update: (prev: ItemAssignment[]) => ItemAssignment[], message: string) => {
+        const versionId = recordAssignments(update, 'manual', message);
+        setChatMessages(prev => [...prev, { sender: 'system', text: message, version_id: versionId }]);
+    };
+
+    // Shows what each person would pay for this line before the edit is saved.
+    const previewSplit = (item: ReceiptItem) =>
+        computeBillSplit(data, [{ item_id: item.id, shares: parseShareInput(assigneeInput, currency) }], policy);
+
     const handleSaveAssignment = (item: ReceiptItem) => {
-        const names = assigneeInput.split(',').map(name => name.trim()).filter(Boolean);
-        handleAssignmentChange(item, names);
-        setEditingIndex(null);
+        handleAssignmentChange(item, parseShareInput(assigneeInput, currency));
+        setEditingItemId(null);
         setAssigneeInput('');
     };
 
@@ -160,23 +261,60 @@ const ReceiptPanel: React.FC<ReceiptPanelProps> = ({
         handleAssignmentChange(item, []);
     };
 
-    const handleEditClick = (index: number, assignees: string[]) => {
-        setEditingIndex(index);
-        setAssigneeInput(assignees.join(', '));
+    const handleEditClick = (itemId: string, assignees: ItemShare[]) => {
+        setEditingItemId(itemId);
+        setAssigneeInput(formatShareInput(assignees));
     };
 
     return (
         <div className="p-6 bg-white dark:bg-slate-800 rounded-xl shadow-inner h-full flex flex-col">
             <div className="flex items-center mb-4">
                 <ReceiptIcon className="h-6 w-6 text-indigo-500 mr-4" />
-                <h2 className="text-xl font-bold text-slate-900 dark:text-white">Itemized Tab</h2>
+                <h2 className="text-xl font-bold text-slate-900 dark:text-white flex-grow">Itemized Tab</h2>
+                {receiptImage && !isEditingReceipt && (
+                  <button onClick={() => setIsPhotoOpen(true)} className="mr-4 text-sm font-semibold text-slate-500 hover:text-indigo-500">
+                    Photo
+                  </button>
+                )}
+                {!isEditingReceipt && (
+                  <button onClick={() => setIsEditingReceipt(true)} className="flex items-center gap-1 text-sm font-semibold text-slate-500 hover:text-indigo-500">
+                    <PencilIcon className="h-4 w-4" /> Edit
+                  </button>
+                )}
             </div>
+            {isEditingReceipt ? (
+              <ReceiptEditor receiptData={data} onSave={handleReceiptSave} onCancel={() => setIsEditingReceipt(false)} />
+            ) : (
+            <>
+            <ValidationPanel
+              issues={validationIssues}
+              onFix={handleApplyFix}
+              blockSplitting={policy.block_on_invalid_receipt}
+              onBlockSplittingChange={block_on_invalid_receipt => updatePolicy({ block_on_invalid_receipt })}
+            />
+            <RosterPanel
+              roster={roster}
+              people={people}
+              onRosterChange={setRoster}
+              onSplitRest={() => recordBulkChange(prev => assignRemaining(data, prev, people), `Split the unassigned items among ${people.join(', ')}.`)}
+              onSplitEverything={() => recordBulkChange(() => splitEverything(data, people), `Split everything evenly among ${people.join(', ')}.`)}
+              onMoveItems={(from, to) => recordBulkChange(prev => moveItems(prev, from, to), `Moved all of ${from}'s items to ${to}.`)}
+              onRemovePerson={name => recordBulkChange(prev => removeFromAssignments(prev, name), `Took ${name} off every item.`)}
+              assignments={assignments}
+              disabled={isSplitBlocked}
+              isExpanded={isRosterOpen}
+              onToggle={() => setIsRosterOpen(prev => !prev)}
+            />
             <div className="flex-grow overflow-y-auto pr-2 -mr-2">
             <ul>
-              {data.items.map((item, index) => {
-                const assignees = assignedItemsMap.get(item.item_name) || [];
+              {data.items.map((item) => {
+                const assignees = assignedItemsMap.get(item.id) || [];
                 const isAssigned = assignees.length > 0;
-                const isEditing = editingIndex === index;
+                // Leftovers are highlighted until someone claims them, including
+                // the unclaimed part of a line that is only partly assigned.
+                const unclaimed = progress?.lines.find(line => line.item_id === item.id)?.amount ?? 0;
+                const isComplete = isAssigned && unclaimed === 0;
+                const isEditing = editingItemId === item.id;
 
                 const confidenceColor =
                   item.confidence_score > 0.9 ? 'bg-green-500' :
@@ -184,7 +322,11 @@ const ReceiptPanel: React.FC<ReceiptPanelProps> = ({
                   'bg-red-500';
 
                 return (
-                    <li key={index} className={`py-4 px-3 rounded-lg border-b border-slate-200 dark:border-slate-700 transition-colors duration-300 ${isAssigned ? 'bg-green-50 dark:bg-green-900/20' : ''}`}>
+                    <li
+                      key={item.id}
+                      id={`receipt-line-${item.id}`}
+                      className={`py-4 px-3 rounded-lg border-b border-slate-200 dark:border-slate-700 transition-colors duration-300 ${isComplete ? 'bg-green-50 dark:bg-green-900/20' : 'bg-amber-50 dark:bg-amber-900/20'} ${item.id === focusedItemId ? 'ring-2 ring-indigo-500' : ''}`}
+                    >
                       <div className="flex justify-between items-center">
                           <div className="flex items-start gap-3 flex-grow mr-2">
                              <div className={`w-2 h-2 rounded-full mt-1.5 flex-shrink-0 ${confidenceColor}`} title={`Confidence: ${Math.round(item.confidence_score * 100)}%`}></div>
@@ -195,21 +337,26 @@ const ReceiptPanel: React.FC<ReceiptPanelProps> = ({
                                 )}
                                 {isAssigned && !isEditing && (
                                     <p className="text-xs text-green-600 dark:text-green-400 mt-1 font-medium">
-                                        Assigned to: {assignees.length > 3 ? `${assignees.length} people` : assignees.join(', ')}
+                                        Assigned to: {assignees.length > 3 ? `${assignees.length} people` : formatShareInput(assignees)}
+                                    </p>
+                                )}
+                                {isAssigned && unclaimed > 0 && !isEditing && (
+                                    <p className="text-xs text-amber-600 dark:text-amber-400 mt-1 font-medium">
+                                        {formatCurrency(unclaimed, currency)} still unclaimed
                                     </p>
                                 )}
                              </div>
                           </div>
                           {!isEditing && (
                             <div className="flex items-center gap-2 flex-shrink-0">
-                              <span className={`font-medium transition-all ${isAssigned ? 'line-through text-slate-400 dark:text-slate-500' : 'text-slate-900 dark:text-white'}`}>{formatCurrency(item.price)}</span>
-                              {isAssigned ? (
+                              <span className={`font-medium transition-all ${isComplete ? 'line-through text-slate-400 dark:text-slate-500' : 'text-slate-900 dark:text-white'}`}>{formatCurrency(item.price, currency)}</span>
+                              {isSplitBlocked ? null : isAssigned ? (
                                   <>
-                                    <button onClick={() => handleEditClick(index, assignees)} className="text-slate-400 hover:text-indigo-500"><PencilIcon className="h-4 w-4" /></button>
+                                    <button onClick={() => handleEditClick(item.id, assignees)} className="text-slate-400 hover:text-indigo-500"><PencilIcon className="h-4 w-4" /></button>
                                     <button onClick={() => handleUnassignItem(item)} className="text-slate-400 hover:text-red-500"><XCircleIcon className="h-5 w-5" /></button>
                                   </>
                               ) : (
-                                <button onClick={() => handleEditClick(index, [])} className="text-slate-400 hover:text-green-500"><PlusCircleIcon className="h-5 w-5" /></button>
+                                <button onClick={() => handleEditClick(item.id, [])} className="text-slate-400 hover:text-green-500"><PlusCircleIcon className="h-5 w-5" /></button>
                               )}
                             </div>
                           )}
@@ -220,12 +367,22 @@ const ReceiptPanel: React.FC<ReceiptPanelProps> = ({
                              type="text"
                              value={assigneeInput}
                              onChange={(e) => setAssigneeInput(e.target.value)}
-                             placeholder="e.g., Alice, Bob"
+                             placeholder={item.quantity > 1 ? `e.g., Alice x${item.quantity - 1}, Bob x1` : "e.g., Alice, Bob"}
                              className="flex-grow p-2 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-slate-100 dark:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
                              autoFocus
                            />
                            <button onClick={() => handleSaveAssignment(item)} className="px-3 py-1 text-sm font-semibold text-white bg-indigo-500 rounded-md hover:bg-indigo-600">Save</button>
-                           <button onClick={() => setEditingIndex(null)} className="px-3 py-1 text-sm font-semibold text-slate-600 bg-slate-200 dark:text-slate-300 dark:bg-slate-600 rounded-md hover:bg-slate-300 dark:hover:bg-slate-500">Cancel</button>
+                           <button onClick={() => setEditingItemId(null)} className="px-3 py-1 text-sm font-semibold text-slate-600 bg-slate-200 dark:text-slate-300 dark:bg-slate-600 rounded-md hover:bg-slate-300 dark:hover:bg-slate-500">Cancel</button>
+                        </div>
+                      )}
+                      {isEditing && (
+                        <div className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+                          <p>{shareInputHint(currency)}</p>
+                          {previewSplit(item).length > 0 && (
+                            <p className="mt-1 font-medium text-indigo-600 dark:text-indigo-400">
+                              {previewSplit(item).map(p => `${p.person_name}: ${formatCurrency(p.subtotal, currency)}`).join(' | ')}
+                            </p>
+                          )}
                         </div>
                       )}
                     </li>
@@ -236,21 +393,72 @@ const ReceiptPanel: React.FC<ReceiptPanelProps> = ({
           <div className="mt-auto pt-4 border-t-2 border-slate-200 dark:border-slate-700 space-y-3 text-sm">
             <div className="flex justify-between">
               <span className="text-slate-600 dark:text-slate-400">Subtotal</span>
-              <span className="font-medium">{formatCurrency(data.subtotal)}</span>
+              <span className="font-medium">{formatCurrency(data.subtotal, currency)}</span>
             </div>
+            <AdjustmentsEditor receiptData={data} onChange={handleAdjustmentsChange} />
             <div className="flex justify-between">
               <span className="text-slate-600 dark:text-slate-400">Tax</span>
-              <span className="font-medium">{formatCurrency(data.tax)}</span>
+              <span className="font-medium">{formatCurrency(charges.tax, currency)}</span>
             </div>
-            <div className="flex justify-between">
-              <span className="text-slate-600 dark:text-slate-400">Tip</span>
-              <span className="font-medium">{formatCurrency(data.tip)}</span>
+            {charges.service_charge !== 0 && (
+              <div className="flex justify-between items-center">
+                <span className="text-slate-600 dark:text-slate-400">
+                  Service charge
+                  <SplitModeSelect value={policy.service_split} onChange={service_split => updatePolicy({ service_split })} />
+                </span>
+                <span className="font-medium">{formatCurrency(charges.service_charge, currency)}</span>
+              </div>
+            )}
+            {charges.cover_charge !== 0 && (
+              <div className="flex justify-between items-center">
+                <span className="text-slate-600 dark:text-slate-400">
+                  Cover charge
+                  <SplitModeSelect value={policy.cover_split} onChange={cover_split => updatePolicy({ cover_split })} />
+                </span>
+                <span className="font-medium">{formatCurrency(charges.cover_charge, currency)}</span>
+              </div>
+            )}
+            <div className="flex justify-between items-center">
+              <span className="text-slate-600 dark:text-slate-400">
+                Tip
+                <SplitModeSelect value={policy.tip_split} onChange={tip_split => updatePolicy({ tip_split })} />
+              </span>
+              <span className="font-medium">{formatCurrency(charges.tip, currency)}</span>
+            </div>
+            <div className="flex gap-2 text-xs">
+              <label className="flex items-center gap-1 text-slate-500 dark:text-slate-400">
+                Tip %
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={tipPercentInput}
+                  onChange={(e) => setTipPercentInput(e.target.value)}
+                  onBlur={() => updatePolicy({ tip_percent: tipPercentInput === '' ? null : Math.max(Number(tipPercentInput), 0) })}
+                  placeholder="Receipt"
+                  className="w-16 p-1 border border-slate-300 dark:border-slate-600 rounded-md bg-slate-100 dark:bg-slate-700"
+                />
+              </label>
+              <label className="flex items-center gap-1 flex-grow text-slate-500 dark:text-slate-400">
+                No tip from
+                <input
+                  type="text"
+                  value={tipExemptInput}
+                  onChange={(e) => setTipExemptInput(e.target.value)}
+                  onBlur={() => updatePolicy({ tip_exempt: tipExemptInput.split(',').map(name => name.trim()).filter(Boolean) })}
+                  placeholder="e.g., Carol"
+                  className="flex-grow min-w-0 p-1 border border-slate-300 dark:border-slate-600 rounded-md bg-slate-100 dark:bg-slate-700"
+                />
+              </label>
             </div>
             <div className="flex justify-between text-base font-bold text-slate-900 dark:text-white pt-3 mt-1 border-t border-slate-200 dark:border-slate-600">
               <span>Total</span>
-              <span>{formatCurrency(data.total)}</span>
+              <span>{formatCurrency(charges.total, currency)}</span>
             </div>
+            <CurrencyPicker value={currency} onChange={handleCurrencyChange} />
           </div>
+          </>
+          )}
         </div>
     );
   };
@@ -258,7 +466,22 @@ const ReceiptPanel: React.FC<ReceiptPanelProps> = ({
   return (
     <div className="bg-slate-50 dark:bg-slate-900/50 md:border-r border-slate-200 dark:border-slate-700 flex flex-col justify-center h-full">
       <div className="p-4 md:p-6 h-full">
-        {receiptData ? <ReceiptDisplay data={receiptData} billSplit={billSplit} setBillSplit={setBillSplit} /> : <UploadPlaceholder />}
+        {receiptData ? (
+          renderReceipt(receiptData)
+        ) : isManualEntry ? (
+          <ManualEntry onCreate={handleManualReceipt} onCancel={() => setIsManualEntry(false)} />
+        ) : (
+          <UploadPlaceholder />
+        )}
+        {isPhotoOpen && receiptImage && (
+          <div className="fixed inset-0 z-20 bg-slate-900/80 flex items-center justify-center p-4" onClick={() => setIsPhotoOpen(false)}>
+            <img
+              src={`data:${receiptImage.mimeType};base64,${receiptImage.data}`}
+              alt="Receipt photo"
+              className="max-h-full max-w-full rounded-lg shadow-xl"
+            />
+          </div>
+        )}
       </div>
     </div>
   );
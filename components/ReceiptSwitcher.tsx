@@ -0,0 +1,53 @@
+import React from 'react';
+import { PencilIcon, PlusCircleIcon, XCircleIcon } from './icons';
+
+interface ReceiptSwitcherProps {
+  /** Every receipt of the event, the open one included, in the order they were added. */
+  receipts: { id: string; name: string }[];
+  activeId: string;
+  onSwitch: (id: string) => void;
+  onAdd: () => void;
+  onRename: (id: string) => void;
+  onRemove: (id: string) => void;
+  /** Adding waits until the open receipt has been loaded. */
+  canAdd: boolean;
+  disabled: boolean;
+}
+
+const ReceiptSwitcher: React.FC<ReceiptSwitcherProps> = ({ receipts, activeId, onSwitch, onAdd, onRename, onRemove, canAdd, disabled }) => (
+  <div className="flex items-center gap-2 px-4 py-2 overflow-x-auto border-b border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 flex-shrink-0">
+    {receipts.map(receipt => {
+      const isActive = receipt.id === activeId;
+      return (
+        <div
+          key={receipt.id}
+          className={`flex items-center gap-1 px-3 py-1 text-sm rounded-full border flex-shrink-0 ${isActive ? 'border-indigo-400 bg-indigo-50 dark:bg-indigo-900/20 text-indigo-700 dark:text-indigo-300' : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300'}`}
+        >
+          <button onClick={() => onSwitch(receipt.id)} disabled={disabled || isActive} className="font-semibold disabled:cursor-default">
+            {receipt.name}
+          </button>
+          <button onClick={() => onRename(receipt.id)} className="text-slate-400 hover:text-indigo-500" aria-label={`Rename ${receipt.name}`}>
+            <PencilIcon className="h-3 w-3" />
+          </button>
+          {receipts.length > 1 && (
+            <button onClick={() => onRemove(receipt.id)} disabled={disabled} className="text-slate-400 hover:text-red-500" aria-label={`Remove ${receipt.name}`}>
+              <XCircleIcon className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+      );
+    })}
+    {canAdd && (
+      <button
+        onClick={onAdd}
+        disabled={disabled}
+        className="flex items-center gap-1 px-3 py-1 text-sm font-semibold text-indigo-600 dark:text-indigo-300 rounded-full hover:bg-indigo-50 dark:hover:bg-slate-700 flex-shrink-0"
+      >
+        <PlusCircleIcon className="h-4 w-4" />
+        Add receipt
+      </button>
+    )}
+  </div>
+);
+
+export default ReceiptSwitcher;
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { ItemAssignment, Roster } from '../types';
+import { addPerson, removePerson, setGroup, removeGroup } from '../utils/roster';
+import { XCircleIcon } from './icons';
+
+interface RosterPanelProps {
+  roster: Roster;
+  /** Everyone on the tab: the roster plus anyone only named in assignments. */
+  people: string[];
+  onRosterChange: (roster: Roster) => void;
+  onSplitRest: () => void;
+  onSplitEverything: () => void;
+  onMoveItems: (from: string, to: string) => void;
+  onRemovePerson: (name: string) => void;
+  assignments: ItemAssignment[];
+  disabled: boolean;
+  isExpanded: boolean;
+  onToggle: () => void;
+}
+
+const RosterPanel: React.FC<RosterPanelProps> = ({
+  roster,
+  people,
+  onRosterChange,
+  onSplitRest,
+  onSplitEverything,
+  onMoveItems,
+  onRemovePerson,
+  assignments,
+  disabled,
+  isExpanded,
+  onToggle,
+}) => {
+  const [newPerson, setNewPerson] = useState('');
+  const [groupName, setGroupName] = useState('');
+  const [groupMembers, setGroupMembers] = useState('');
+  const [moveFrom, setMoveFrom] = useState('');
+  const [moveTo, setMoveTo] = useState('');
+
+  const hasItems = (name: string) => assignments.some(a => a.shares.some(share => share.person_name === name));
+
+  const handleAddPerson = () => {
+    onRosterChange(addPerson(roster, newPerson));
+    setNewPerson('');
+  };
+
+  const handleRemovePerson = (name: string) => {
+    const held = hasItems(name);
+    if (held && !window.confirm(`Take ${name} off every item too?`)) return;
+    onRosterChange(removePerson(roster, name));
+    if (held) onRemovePerson(name);
+  };
+
+  const handleAddGroup = () => {
+    const members = groupMembers.split(',').map(name => name.trim()).filter(Boolean);
+    if (!groupName.trim() || members.length < 2) return;
+    onRosterChange(setGroup(roster, { name: groupName.trim(), members }));
+    setGroupName('');
+    setGroupMembers('');
+  };
+
+  const handleMove = () => {
+    if (!moveFrom || !moveTo || moveFrom === moveTo) return;
+    onMoveItems(moveFrom, moveTo);
+    setMoveFrom('');
+    setMoveTo('');
+  };
+
+  const inputClass = 'min-w-0 p-1 text-xs border border-slate-300 dark:border-slate-600 rounded-md bg-slate-100 dark:bg-slate-700';
+  const buttonClass = 'px-2 py-0.5 text-xs font-semibold text-indigo-600 dark:text-indigo-300 bg-white dark:bg-slate-700 rounded border border-indigo-200 dark:border-slate-600 hover:bg-indigo-50 disabled:text-slate-400 disabled:cursor-not-allowed';
+
+  return (
+    <div className="mb-4 p-3 rounded-lg border border-slate-200 dark:border-slate-700 text-sm">
+      <button onClick={onToggle} className="w-full flex justify-between items-center font-semibold text-slate-700 dark:text-slate-200">
+        <span>People ({people.length})</span>
+        <span className="text-xs text-slate-500">{isExpanded ? 'Hide' : 'Show'}</span>
+      </button>
+      {isExpanded && (
+        <div className="mt-2 space-y-3">
+          <div className="flex flex-wrap gap-1">
+            {people.map(name => (
+              <span key={name} className="flex items-center gap-1 text-xs text-slate-700 dark:text-slate-200 bg-slate-100 dark:bg-slate-700 px-2 py-0.5 rounded-full">
+                {name}
+                <button onClick={() => handleRemovePerson(name)} className="text-slate-400 hover:text-red-500" aria-label={`Remove ${name}`}>
+                  <XCircleIcon className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newPerson}
+              onChange={(e) => setNewPerson(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddPerson()}
+              placeholder="Add a person"
+              className={`flex-grow ${inputClass}`}
+            />
+            <button onClick={handleAddPerson} disabled={!newPerson.trim()} className={buttonClass}>Add</button>
+          </div>
+
+          <div>
+            <p className="text-xs font-semibold text-slate-600 dark:text-slate-400 mb-1">Groups pay as one</p>
+            {roster.groups.map(group => (
+              <div key={group.name} className="flex justify-between items-center text-xs text-slate-600 dark:text-slate-300">
+                <span><span className="font-semibold">{group.name}</span>: {group.members.join(', ')}</span>
+                <button onClick={() => onRosterChange(removeGroup(roster, group.name))} className="text-slate-400 hover:text-red-500" aria-label={`Remove group ${group.name}`}>
+                  <XCircleIcon className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+            <div className="flex gap-2 mt-1">
+              <input type="text" value={groupName} onChange={(e) => setGroupName(e.target.value)} placeholder="e.g., Couple" className={`w-24 ${inputClass}`} />
+              <input type="text" value={groupMembers} onChange={(e) => setGroupMembers(e.target.value)} placeholder="e.g., Alice, Bob" className={`flex-grow ${inputClass}`} />
+              <button onClick={handleAddGroup} className={buttonClass}>Add</button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-semibold text-slate-600 dark:text-slate-400">For the whole tab</p>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={onSplitRest} disabled={disabled || people.length === 0} className={buttonClass}>Split the rest among everyone</button>
+              <button onClick={onSplitEverything} disabled={disabled || people.length === 0} className={buttonClass}>Split everything evenly</button>
+            </div>
+            <div className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-400">
+              Move items from
+              <select value={moveFrom} onChange={(e) => setMoveFrom(e.target.value)} className={inputClass}>
+                <option value="">...</option>
+                {people.filter(hasItems).map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+              to
+              <select value={moveTo} onChange={(e) => setMoveTo(e.target.value)} className={inputClass}>
+                <option value="">...</option>
+                {people.filter(name => name !== moveFrom).map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+              <button onClick={handleMove} disabled={disabled || !moveFrom || !moveTo} className={buttonClass}>Move</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RosterPanel;
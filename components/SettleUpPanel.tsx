@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { FxSettings, Payment, PaymentMethod, Roster, Settlement } from '../types';
+import { LedgerRow } from '../utils/event';
+import { computeBalances, computeTransfers, nextPaymentId, transferKey } from '../utils/settleUp';
+import { toMinor, fromMinor } from '../utils/money';
+import { CurrencyFormat, amountStep, currencyDigits, currencyFormatFor, formatCurrency } from '../utils/currency';
+import { convertAmount, paymentsIn, personCurrency } from '../utils/fx';
+import { XCircleIcon } from './icons';
+
+interface SettleUpPanelProps {
+  /** What everyone owes across all of the event's receipts, in `currency`. */
+  totals: LedgerRow[];
+  roster: Roster;
+  people: string[];
+  /** The event total the payments should add up to. */
+  total: number;
+  settlement: Settlement;
+  /** The settle-up currency. */
+  currency: CurrencyFormat;
+  fx: FxSettings;
+  /** Receipt currencies with no rate yet, left out of `totals`. */
+  missingRates: string[];
+  onChange: (settlement: Settlement) => void;
+}
+
+
+const METHOD_LABELS: Record<PaymentMethod, string> = {
+  card: 'by card',
+  cash: 'in cash',
+  other: '',
+};
+
+const SettleUpPanel: React.FC<SettleUpPanelProps> = ({ totals, roster, people, total, settlement, currency, fx, missingRates, onChange }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [payer, setPayer] = useState('');
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('card');
+  const [chosenCurrency, setPaymentCurrency] = useState(currency.currency);
+
+  const paymentCurrencyOf = (payment: Payment) => payment.currency ?? currency.currency;
+  const inHomeCurrency = (payment: Payment) => convertAmount(payment.amount, paymentCurrencyOf(payment), currency.currency, fx.rates);
+  const convertedPayments = paymentsIn(settlement.payments, currency.currency, fx.rates);
+  const unconvertedCount = settlement.payments.length - convertedPayments.length;
+  const paymentCurrencies = Array.from(new Set([currency.currency, ...fx.rates.flatMap(rate => [rate.from, rate.to])]))
+    .filter(code => code === currency.currency || convertAmount(1, code, currency.currency, fx.rates) !== null);
+  // Falls back to the settle-up currency if that changes or loses its rate.
+  const paymentCurrency = paymentCurrencies.includes(chosenCurrency) ? chosenCurrency : currency.currency;
+
+  const digits = currencyDigits(currency.currency);
+  const transfers = computeTransfers(computeBalances(totals, convertedPayments, roster, digits), digits);
+  const paidMinor = convertedPayments.reduce((acc, payment) => acc + toMinor(payment.amount, digits), 0);
+  const remainingMinor = toMinor(total, digits) - paidMinor;
+  const remainingInPaymentCurrency = remainingMinor > 0 ? convertAmount(fromMinor(remainingMinor, digits), currency.currency, paymentCurrency, fx.rates) : null;
+  const paidCount = transfers.filter(transfer => settlement.paid_transfers.includes(transferKey(transfer, digits))).length;
+
+  const handleAddPayment = () => {
+    const value = Number(amount);
+    if (!payer.trim() || !Number.isFinite(value) || value <= 0) return;
+    onChange({
+      ...settlement,
+      payments: [
+        ...settlement.payments,
+        {
+          id: nextPaymentId(settlement.payments),
+          person_name: payer.trim(),
+          amount: value,
+          method,
+          ...(paymentCurrency !== currency.currency ? { currency: paymentCurrency } : {}),
+        },
+      ],
+    });
+    setAmount('');
+  };
+
+  const handleRemovePayment = (id: string) => {
+    onChange({ ...settlement, payments: settlement.payments.filter(payment => payment.id !== id) });
+  };
+
+  const handleTogglePaid = (key: string, paid: boolean) => {
+    const others = settlement.paid_transfers.filter(existing => existing !== key);
+    onChange({ ...settlement, paid_transfers: paid ? [...others, key] : others });
+  };
+
+  const inputClass = 'min-w-0 p-1 text-xs border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700';
+
+  return (
+    <div className="mb-4 p-3 rounded-xl border border-slate-200 dark:border-slate-700 text-sm">
+      <button onClick={() => setIsExpanded(prev => !prev)} className="w-full flex justify-between items-center font-semibold text-slate-700 dark:text-slate-200">
+        <span>
+          Settle Up
+          {transfers.length > 0 && (
+            <span className="ml-1 text-xs font-normal text-slate-500">({paidCount} of {transfers.length} paid back)</span>
+          )}
+        </span>
+        <span className="text-xs font-normal text-slate-500">{isExpanded ? 'Hide' : 'Show'}</span>
+      </button>
+      {isExpanded && (
+        <div className="mt-2 space-y-3">
+          <div>
+            <p className="text-xs font-semibold text-slate-600 dark:text-slate-400 mb-1">Who paid at the venue</p>
+            {settlement.payments.length === 0 && (
+              <p className="text-xs text-slate-500 dark:text-slate-400">Nobody yet. Add everyone who paid, including split card payments and cash.</p>
+            )}
+            <ul className="space-y-1">
+              {settlement.payments.map(payment => (
+                <li key={payment.id} className="flex justify-between items-center text-xs text-slate-700 dark:text-slate-200">
+                  <span>
+                    {payment.person_name} paid {formatCurrency(payment.amount, currencyFormatFor(paymentCurrencyOf(payment)))} {METHOD_LABELS[payment.method]}
+                    {paymentCurrencyOf(payment) !== currency.currency && (
+                      <span className="text-slate-500 dark:text-slate-400">
+                        {' '}({inHomeCurrency(payment) === null ? `no ${paymentCurrencyOf(payment)} rate yet` : `≈ ${formatCurrency(inHomeCurrency(payment)!, currency)}`})
+                      </span>
+                    )}
+                  </span>
+                  <button onClick={() => handleRemovePayment(payment.id)} className="text-slate-400 hover:text-red-500" aria-label="Remove payment">
+                    <XCircleIcon className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="flex gap-2 mt-2">
+              <input
+                type="text"
+                list="settle-up-people"
+                value={payer}
+                onChange={(e) => setPayer(e.target.value)}
+                placeholder="Name"
+                className={`w-24 ${inputClass}`}
+              />
+              <datalist id="settle-up-people">
+                {people.map(name => <option key={name} value={name} />)}
+              </datalist>
+              <input
+                type="number"
+                min="0"
+                step={amountStep(currencyFormatFor(paymentCurrency))}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="Amount"
+                className={`w-24 ${inputClass}`}
+              />
+              {paymentCurrencies.length > 1 && (
+                <select value={paymentCurrency} onChange={(e) => setPaymentCurrency(e.target.value)} className={inputClass} aria-label="Payment currency">
+                  {paymentCurrencies.map(code => <option key={code} value={code}>{code}</option>)}
+                </select>
+              )}
+              <select value={method} onChange={(e) => setMethod(e.target.value as PaymentMethod)} className={inputClass}>
+                <option value="card">Card</option>
+                <option value="cash">Cash</option>
+                <option value="other">Other</option>
+              </select>
+              {remainingInPaymentCurrency !== null && (
+                <button onClick={() => setAmount(String(remainingInPaymentCurrency))} className="text-xs text-indigo-600 dark:text-indigo-300 hover:underline">
+                  The rest
+                </button>
+              )}
+              <button
+                onClick={handleAddPayment}
+                className="px-2 py-0.5 text-xs font-semibold text-indigo-600 dark:text-indigo-300 bg-white dark:bg-slate-700 rounded border border-indigo-200 dark:border-slate-600 hover:bg-indigo-50"
+              >
+                Add
+              </button>
+            </div>
+            {settlement.payments.length > 0 && remainingMinor !== 0 && (
+              <p className="mt-1 text-xs text-amber-600 dark:text-amber-400">
+                Payments add up to {formatCurrency(fromMinor(paidMinor, digits), currency)} of the {formatCurrency(total, currency)} tab.
+              </p>
+            )}
+            {unconvertedCount > 0 && (
+              <p className="mt-1 text-xs text-amber-600 dark:text-amber-400">
+                {unconvertedCount === 1 ? 'One payment is' : `${unconvertedCount} payments are`} left out until its currency has a rate.
+              </p>
+            )}
+            {missingRates.length > 0 && (
+              <p className="mt-1 text-xs text-amber-600 dark:text-amber-400">
+                Receipts in {missingRates.join(', ')} are left out until they have a rate to {currency.currency}.
+              </p>
+            )}
+          </div>
+
+          {settlement.payments.length > 0 && (
+            <div>
+              <p className="text-xs font-semibold text-slate-600 dark:text-slate-400 mb-1">Paying each other back</p>
+              {transfers.length === 0 ? (
+                <p className="text-xs text-green-600 dark:text-green-400">Everyone is square.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {transfers.map(transfer => {
+                    const key = transferKey(transfer, digits);
+                    const isPaid = settlement.paid_transfers.includes(key);
+                    // Also shown in the currency the person paying back uses, when it is another one.
+                    const ownCurrency = personCurrency(fx, currency.currency, transfer.from);
+                    const ownAmount = ownCurrency === currency.currency ? null : convertAmount(transfer.amount, currency.currency, ownCurrency, fx.rates);
+                    return (
+                      <li key={key}>
+                        <label className={`flex items-center gap-2 text-sm ${isPaid ? 'line-through text-slate-400' : 'text-slate-800 dark:text-slate-100'}`}>
+                          <input type="checkbox" checked={isPaid} onChange={(e) => handleTogglePaid(key, e.target.checked)} />
+                          <span>
+                            <span className="font-semibold">{transfer.from}</span> pays <span className="font-semibold">{transfer.to}</span> {formatCurrency(transfer.amount, currency)}
+                            {ownAmount !== null && (
+                              <span className="text-xs text-slate-500 dark:text-slate-400"> (≈ {formatCurrency(ownAmount, currencyFormatFor(ownCurrency))})</span>
+                            )}
+                          </span>
+                        </label>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SettleUpPanel;
@@ -0,0 +1,105 @@
+import React from 'react';
+import { SavedTab } from '../types';
+import { buildTabReport, showsLedger } from '../utils/tabExport';
+import { transferKey } from '../utils/settleUp';
+import { currencyDigits, formatCurrency } from '../utils/currency';
+import { XCircleIcon } from './icons';
+
+interface SharedTabViewProps {
+  /** The tab from a share link, or null when the link could not be read. */
+  tab: SavedTab | null;
+  error: string | null;
+  onSaveCopy: (tab: SavedTab) => void;
+  onClose: () => void;
+}
+
+/** A read-only look at a tab someone shared; nothing changes unless it is saved as a copy. */
+const SharedTabView: React.FC<SharedTabViewProps> = ({ tab, error, onSaveCopy, onClose }) => {
+  const report = tab ? buildTabReport(tab) : null;
+
+  return (
+    <div className="fixed inset-0 z-20 bg-slate-900/50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-lg max-h-full flex flex-col bg-white dark:bg-slate-800 rounded-xl shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-700">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900 dark:text-white">{tab?.name ?? 'Shared Tab'}</h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400">Shared with you · read-only</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600" aria-label="Close shared tab">
+            <XCircleIcon className="h-6 w-6" />
+          </button>
+        </div>
+        <div className="flex-grow overflow-y-auto p-4 space-y-4">
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          {report?.receipts.map(({ entry, split, charges, unassigned, currency }) => (
+            <div key={entry.id}>
+              {report.receipts.length > 1 && <h3 className="font-semibold text-slate-800 dark:text-slate-100 mb-1">{entry.name}</h3>}
+              <ul className="space-y-2">
+                {split.billSplit.map(person => (
+                  <li key={person.person_name} className="p-3 bg-slate-100 dark:bg-slate-700 rounded-lg">
+                    <div className="flex justify-between items-center">
+                      <span className="font-bold text-indigo-600 dark:text-indigo-400">{person.person_name}</span>
+                      <span className="font-bold text-indigo-600 dark:text-indigo-400">{formatCurrency(person.total, currency)}</span>
+                    </div>
+                    <ul className="mt-1 text-xs text-slate-600 dark:text-slate-300">
+                      {person.items.map(item => (
+                        <li key={item.item_id} className="flex justify-between">
+                          <span>{item.units ? `${item.units} x ` : ''}{item.item_name}</span>
+                          <span>{formatCurrency(item.price, currency)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                      Tax: {formatCurrency(person.tax, currency)} | Tip: {formatCurrency(person.tip, currency)}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-2 text-sm text-slate-600 dark:text-slate-300 flex justify-between">
+                <span>Receipt total</span>
+                <span className="font-semibold">{formatCurrency(charges.total, currency)}</span>
+              </p>
+              {unassigned > 0 && (
+                <p className="text-xs text-amber-600 dark:text-amber-400">Not assigned yet: {formatCurrency(unassigned, currency)}</p>
+              )}
+            </div>
+          ))}
+          {report && showsLedger(report) && (
+            <div>
+              <h3 className="font-semibold text-slate-800 dark:text-slate-100 mb-1">Everyone's total ({report.ledger.currency})</h3>
+              <ul className="text-sm space-y-1">
+                {report.ledger.rows.map(row => (
+                  <li key={row.person_name} className="flex justify-between">
+                    <span>{row.person_name}</span>
+                    <span className="font-semibold">{formatCurrency(row.total, report.home)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {report && report.transfers.length > 0 && (
+            <div>
+              <h3 className="font-semibold text-slate-800 dark:text-slate-100 mb-1">Settle up</h3>
+              <ul className="text-sm space-y-1">
+                {report.transfers.map(transfer => (
+                  <li key={transferKey(transfer, currencyDigits(report.home.currency))}>
+                    <span className="font-semibold">{transfer.from}</span> pays <span className="font-semibold">{transfer.to}</span> {formatCurrency(transfer.amount, report.home)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+        {tab && (
+          <div className="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-end">
+            <button onClick={() => onSaveCopy(tab)} className="px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700">
+              Save a copy to edit
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharedTabView;
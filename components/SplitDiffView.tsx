@@ -0,0 +1,62 @@
+import React from 'react';
+import { SplitDiff, ItemHolder, isEmptyDiff } from '../utils/splitDiff';
+import { CurrencyFormat, formatCurrency } from '../utils/currency';
+
+interface SplitDiffViewProps {
+  diff: SplitDiff;
+  currency: CurrencyFormat;
+}
+
+const formatHolders = (holders: ItemHolder[], currency: CurrencyFormat) => {
+  // "Alice, Bob (R75.00 each)" when the line is split evenly, otherwise each amount.
+  const amounts = new Set(holders.map(h => formatCurrency(h.amount, currency)));
+  if (holders.length > 1 && amounts.size === 1) {
+    return `${holders.map(h => h.person_name).join(', ')} (${formatCurrency(holders[0].amount, currency)} each)`;
+  }
+  return holders.map(h => `${h.person_name} (${formatCurrency(h.amount, currency)})`).join(', ');
+};
+
+const SplitDiffView: React.FC<SplitDiffViewProps> = ({ diff, currency }) => {
+  if (isEmptyDiff(diff)) {
+    return <p className="text-xs text-slate-500 dark:text-slate-400">Nothing changed.</p>;
+  }
+
+  return (
+    <div className="text-xs font-mono space-y-1">
+      <ul className="space-y-0.5">
+        {diff.items.map(change => {
+          if (change.before.length === 0) {
+            return (
+              <li key={change.item_id} className="text-green-700 dark:text-green-400">
+                + {change.item_name} → {formatHolders(change.after, currency)}
+              </li>
+            );
+          }
+          if (change.after.length === 0) {
+            return (
+              <li key={change.item_id} className="text-red-700 dark:text-red-400">
+                − {change.item_name} (was {formatHolders(change.before, currency)})
+              </li>
+            );
+          }
+          return (
+            <li key={change.item_id} className="text-amber-700 dark:text-amber-400">
+              ~ {change.item_name}: {formatHolders(change.before, currency)} → {formatHolders(change.after, currency)}
+            </li>
+          );
+        })}
+      </ul>
+      {diff.people.length > 0 && (
+        <ul className="pt-1 border-t border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300">
+          {diff.people.map(change => (
+            <li key={change.person_name}>
+              {change.person_name}: {formatCurrency(change.before, currency)} → {formatCurrency(change.after, currency)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SplitDiffView;
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { BillSplit, ItemAssignment, SplitHistory, SplitChangeSource } from '../types';
+import { canUndo, canRedo, previousAssignments } from '../utils/splitHistory';
+import { diffSplits } from '../utils/splitDiff';
+import { CurrencyFormat, currencyDigits } from '../utils/currency';
+import SplitDiffView from './SplitDiffView';
+
+interface SplitHistoryPanelProps {
+  history: SplitHistory;
+  computeSplit: (assignments: ItemAssignment[]) => BillSplit;
+  currency: CurrencyFormat;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const SOURCE_LABELS: Record<SplitChangeSource, string> = {
+  chat: 'Chat',
+  manual: 'Manual',
+  receipt: 'Receipt edit',
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString('en-ZA', { timeStyle: 'short' });
+
+const SplitHistoryPanel: React.FC<SplitHistoryPanelProps> = ({ history, computeSplit, currency, onUndo, onRedo }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [openVersionId, setOpenVersionId] = useState<number | null>(null);
+
+  const buttonClass = 'px-2 py-0.5 text-xs font-semibold text-indigo-600 dark:text-indigo-300 bg-white dark:bg-slate-700 rounded border border-indigo-200 dark:border-slate-600 hover:bg-indigo-50 disabled:text-slate-400 disabled:border-slate-200 disabled:cursor-not-allowed';
+
+  return (
+    <div className="mb-4 p-3 rounded-xl border border-slate-200 dark:border-slate-700 text-sm">
+      <div className="flex items-center gap-2">
+        <button onClick={() => setIsExpanded(prev => !prev)} className="flex-grow text-left font-semibold text-slate-700 dark:text-slate-200">
+          Changes <span className="text-xs font-normal text-slate-500">({history.versions.length - 1})</span>
+        </button>
+        <button onClick={onUndo} disabled={!canUndo(history)} className={buttonClass}>Undo</button>
+        <button onClick={onRedo} disabled={!canRedo(history)} className={buttonClass}>Redo</button>
+      </div>
+      {isExpanded && (
+        <ol className="mt-2 space-y-1 max-h-48 overflow-y-auto">
+          {history.versions.map((version, position) => {
+            const isCurrent = position === history.index;
+            const isUndone = position > history.index;
+            const before = previousAssignments(history, version.id);
+            return (
+              <li key={version.id} className={`p-2 rounded ${isCurrent ? 'bg-indigo-50 dark:bg-indigo-900/20' : ''} ${isUndone ? 'opacity-50' : ''}`}>
+                <button
+                  onClick={() => setOpenVersionId(prev => (prev === version.id ? null : version.id))}
+                  disabled={!before}
+                  className="w-full flex justify-between gap-2 text-left text-xs"
+                >
+                  <span className="text-slate-700 dark:text-slate-200">{version.description}</span>
+                  <span className="flex-shrink-0 text-slate-500 dark:text-slate-400">
+                    {SOURCE_LABELS[version.source]} · {formatTime(version.created_at)}
+                  </span>
+                </button>
+                {openVersionId === version.id && before && (
+                  <div className="mt-2">
+                    <SplitDiffView diff={diffSplits(computeSplit(before), computeSplit(version.assignments), currencyDigits(currency.currency))} currency={currency} />
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default SplitHistoryPanel;
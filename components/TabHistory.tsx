@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import { SavedTab } from '../types';
+import { listTabs, deleteTab, duplicateTab, saveTab, createTabId } from '../services/tabStorage';
+import { parseTabExport } from '../utils/tabImport';
+import { toMinor, fromMinor } from '../utils/money';
+import { CurrencyFormat, currencyDigits, currencyFormatOf, formatCurrency } from '../utils/currency';
+import { PencilIcon, TrashIcon, XCircleIcon } from './icons';
+
+interface TabHistoryProps {
+  activeTabId: string | null;
+  onOpen: (tab: SavedTab) => void;
+  onDeleted: (id: string) => void;
+  onRenamed: (tab: SavedTab) => void;
+  onClose: () => void;
+}
+
+
+// Receipts in different currencies are not added together; a tab from a trip
+// shows one total per currency, e.g. "¥12,000 + R 850,00".
+const tabTotals = (tab: SavedTab): string => {
+  const totals = new Map<string, { format: CurrencyFormat; minor: number }>();
+  for (const receipt of [tab.receipt, ...(tab.other_receipts ?? []).map(other => other.receipt)]) {
+    const format = currencyFormatOf(receipt);
+    const entry = totals.get(format.currency) ?? { format, minor: 0 };
+    entry.minor += toMinor(receipt.total, currencyDigits(format.currency));
+    totals.set(format.currency, entry);
+  }
+  return Array.from(totals.values())
+    .map(({ format, minor }) => formatCurrency(fromMinor(minor, currencyDigits(format.currency)), format))
+    .join(' + ');
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('en-ZA', { dateStyle: 'medium', timeStyle: 'short' });
+
+const TabHistory: React.FC<TabHistoryProps> = ({ activeTabId, onOpen, onDeleted, onRenamed, onClose }) => {
+  const [tabs, setTabs] = useState<SavedTab[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setTabs(await listTabs());
+    } catch (err: any) {
+      setError(err.message || 'Could not load saved tabs.');
+      console.error(err);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleRename = async (tab: SavedTab) => {
+    const name = window.prompt('Rename tab', tab.name)?.trim();
+    if (!name || name === tab.name) return;
+    const renamed = { ...tab, name, updated_at: new Date().toISOString() };
+    try {
+      await saveTab(renamed);
+      setError(null);
+      onRenamed(renamed);
+      refresh();
+    } catch (err: any) {
+      setError(err.message || `Could not rename "${tab.name}".`);
+      console.error(err);
+    }
+  };
+
+  const handleDuplicate = async (tab: SavedTab) => {
+    try {
+      await duplicateTab(tab.id, `${tab.name} (copy)`);
+      setError(null);
+      refresh();
+    } catch (err: any) {
+      setError(err.message || `Could not copy "${tab.name}".`);
+      console.error(err);
+    }
+  };
+
+  // Imported tabs are added alongside the others, even when the same tab is already here.
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = await parseTabExport(await file.text());
+      const now = new Date().toISOString();
+      const tab = { ...imported, id: createTabId(), updated_at: now };
+      await saveTab(tab);
+      setError(null);
+      onOpen(tab);
+    } catch (err: any) {
+      setError(`Could not import ${file.name}: ${err.message}`);
+    }
+  };
+
+  const handleDelete = async (tab: SavedTab) => {
+    if (!window.confirm(`Delete "${tab.name}"? This can't be undone.`)) return;
+    try {
+      await deleteTab(tab.id);
+      setError(null);
+      onDeleted(tab.id);
+      refresh();
+    } catch (err: any) {
+      setError(err.message || `Could not delete "${tab.name}".`);
+      console.error(err);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 bg-slate-900/50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-lg max-h-full flex flex-col bg-white dark:bg-slate-800 rounded-xl shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white">Past Tabs</h2>
+          <div className="flex items-center gap-3">
+            <label className="text-sm font-semibold text-indigo-600 dark:text-indigo-300 hover:underline cursor-pointer">
+              Import
+              <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+            </label>
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600" aria-label="Close history">
+              <XCircleIcon className="h-6 w-6" />
+            </button>
+          </div>
+        </div>
+        <div className="flex-grow overflow-y-auto p-4">
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          {tabs === null && !error && <p className="text-sm text-slate-500">Loading...</p>}
+          {tabs?.length === 0 && <p className="text-sm text-slate-500 dark:text-slate-400">No saved tabs yet. Tabs are saved automatically once a receipt is loaded.</p>}
+          <ul className="space-y-2">
+            {tabs?.map(tab => (
+              <li key={tab.id} className={`p-3 rounded-lg border ${tab.id === activeTabId ? 'border-indigo-400 bg-indigo-50 dark:bg-indigo-900/20' : 'border-slate-200 dark:border-slate-700'}`}>
+                <div className="flex justify-between items-start gap-2">
+                  <button onClick={() => onOpen(tab)} className="text-left flex-grow">
+                    <span className="block font-semibold text-slate-800 dark:text-slate-100">{tab.name}</span>
+                    <span className="block text-xs text-slate-500 dark:text-slate-400">
+                      {formatDate(tab.updated_at)} · {tab.other_receipts?.length
+                        ? `${tab.other_receipts.length + 1} receipts`
+                        : `${tab.receipt.items.length} lines`} · {tabTotals(tab)}
+                    </span>
+                  </button>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <button onClick={() => handleRename(tab)} className="text-slate-400 hover:text-indigo-500" aria-label="Rename tab"><PencilIcon className="h-4 w-4" /></button>
+                    <button onClick={() => handleDuplicate(tab)} className="text-xs font-semibold text-slate-400 hover:text-indigo-500">Copy</button>
+                    <button onClick={() => handleDelete(tab)} className="text-slate-400 hover:text-red-500" aria-label="Delete tab"><TrashIcon className="h-4 w-4" /></button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TabHistory;
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { ValidationIssue, ValidationFix, hasBlockingIssues } from '../utils/receiptValidation';
+import { CheckIcon } from './icons';
+
+interface ValidationPanelProps {
+  issues: ValidationIssue[];
+  onFix: (fix: ValidationFix) => void;
+  blockSplitting: boolean;
+  onBlockSplittingChange: (block: boolean) => void;
+}
+
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ issues, onFix, blockSplitting, onBlockSplittingChange }) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const isBlocking = hasBlockingIssues(issues);
+
+  if (issues.length === 0) {
+    return (
+      <div className="flex items-center gap-2 mb-4 text-xs text-green-600 dark:text-green-400">
+        <CheckIcon className="h-4 w-4" /> Receipt adds up
+      </div>
+    );
+  }
+
+  return (
+    <div className={`mb-4 p-3 rounded-lg text-sm border ${isBlocking ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800' : 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800'}`}>
+      <button onClick={() => setIsExpanded(prev => !prev)} className="w-full flex justify-between items-center font-semibold">
+        <span className={isBlocking ? 'text-red-700 dark:text-red-300' : 'text-amber-700 dark:text-amber-300'}>
+          {issues.length} {issues.length === 1 ? 'issue' : 'issues'} with this receipt
+        </span>
+        <span className="text-xs text-slate-500">{isExpanded ? 'Hide' : 'Show'}</span>
+      </button>
+      {isExpanded && (
+        <>
+          <ul className="mt-2 space-y-2">
+            {issues.map(issue => (
+              <li key={issue.id} className="flex justify-between items-start gap-2">
+                <span className={`text-xs ${issue.severity === 'blocking' ? 'text-red-700 dark:text-red-300' : 'text-amber-700 dark:text-amber-300'}`}>
+                  {issue.message}
+                </span>
+                {issue.fix && (
+                  <button
+                    onClick={() => onFix(issue.fix!)}
+                    className="flex-shrink-0 px-2 py-0.5 text-xs font-semibold text-indigo-600 dark:text-indigo-300 bg-white dark:bg-slate-700 rounded border border-indigo-200 dark:border-slate-600 hover:bg-indigo-50"
+                  >
+                    {issue.fix.label}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+          <label className="flex items-center gap-2 mt-3 text-xs text-slate-600 dark:text-slate-400">
+            <input type="checkbox" checked={blockSplitting} onChange={(e) => onBlockSplittingChange(e.target.checked)} />
+            Block splitting until the red issues are fixed
+          </label>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ValidationPanel;
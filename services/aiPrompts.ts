@@ -0,0 +1,240 @@
+import { ReceiptData, ReceiptItem, ReceiptAdjustment, AdjustmentKind, AdjustmentScope, ItemAssignment, ItemShare, ChatMessage, SplitUpdate } from '../types';
+import { assignItemIds, assignAdjustmentIds, itemIdForLine } from '../utils/receipt';
+import { currencyFormatOf, currencyDigits, formatCurrency, normalizeCurrency } from '../utils/currency';
+
+// Prompts and response handling shared by every AI provider, so switching
+// providers changes the transport and never the instructions.
+
+// Earlier turns let the model resolve answers to its own questions,
+// e.g. "the second one" after "Which burger?".
+const CONVERSATION_CONTEXT = 6;
+
+// The shape the model returns, before the app gives lines and adjustments ids.
+export type ParsedReceipt = Omit<ReceiptData, 'items' | 'adjustments'> & {
+  items: Omit<ReceiptItem, 'id'>[];
+  adjustments?: (Omit<ReceiptAdjustment, 'id' | 'item_ids'> & { line_numbers?: number[] })[];
+};
+
+export const RECEIPT_PROMPT = `
+You are an expert receipt-parsing AI. Analyze the receipt image with high precision and extract all line items, their quantities, prices, along with the subtotal, tax, any service or cover charge, tip, total amount and currency. Return the data in the specified JSON format.
+
+**Key Extraction Rules:**
+1.  **Line Items:** Extract each item's name, quantity, and total line price.
+2.  **Confidence Score:** For each item, provide a \`confidence_score\` between 0.0 and 1.0. A score of 1.0 means you are absolutely certain about the item name, quantity, and price. A lower score indicates ambiguity, poor image quality for that line, or complex interpretation.
+3.  **Discounts:** If a discount is applied to a specific item, the \`price\` for that item should be the *final price after the discount*. Mention the original price and the discount in the \`notes\` field (e.g., "Discounted from 12.00").
+4.  **Bundled Items:** For bundled items like "Meal Deals," treat the bundle as a single item. List the main bundle name as the \`item_name\` and list the components in the \`notes\` field (e.g., "Includes a sandwich and a drink").
+5.  **Ambiguity:** If an item name is handwritten or blurry, make your best guess for the \`item_name\` and explain the ambiguity in the \`notes\` field. Assign a lower \`confidence_score\`.
+6.  **Receipt-level Discounts:** Discounts, vouchers and comps that cover the whole bill, a category (e.g., "10% off food") or several lines (e.g., a comped round) go in \`adjustments\`, not in the item prices. Give each item a \`category\` so category discounts can be matched.
+7.  **Charges:** A mandatory service charge or a cover/table charge is not a tip. Report them in \`service_charge\` and \`cover_charge\` and keep \`tip\` for voluntary gratuity only. Do not list any of these as line items.
+8.  **Totals Validation:** Critically, ensure the sum of all item prices, less adjustments, plus tax, charges and tip accurately equals the final total on the receipt. Adjust if necessary to ensure mathematical consistency.
+9.  **Currency:** Work out the currency from the symbols, codes and address on the receipt (e.g., "R" in South Africa is ZAR, "¥" or "円" is JPY, "€" is EUR) and return its ISO 4217 code in \`currency\`, plus the locale the receipt is written for in \`locale\` (e.g., "en-ZA", "ja-JP", "fr-FR"). Give amounts in that currency's own units with its usual number of decimals: whole numbers for zero-decimal currencies such as JPY or KRW.
+`;
+
+// Providers without structured output get the expected shapes spelled out.
+export const RECEIPT_JSON_SHAPE = `{
+  "items": [{ "item_name": string, "quantity": number, "price": number, "confidence_score": number, "notes"?: string, "category"?: string }],
+  "adjustments"?: [{ "kind": "discount" | "voucher" | "comp", "description": string, "amount"?: number, "percent"?: number, "scope": "bill" | "category" | "items", "category"?: string, "line_numbers"?: number[] }],
+  "subtotal": number, "tax": number, "service_charge"?: number, "cover_charge"?: number, "tip": number, "total": number,
+  "currency"?: string, "locale"?: string
+}`;
+
+export const SPLIT_UPDATE_JSON_SHAPE = `{
+  "assignments": [{ "item_id": string, "shares": [{ "person_name": string, "weight": number, "amount"?: number, "percent"?: number, "units"?: number }] }],
+  "reply": string,
+  "needs_clarification": boolean
+}`;
+
+export const buildSplitPrompt = (
+  receiptData: ReceiptData,
+  currentAssignments: ItemAssignment[],
+  userInput: string,
+  recentMessages: ChatMessage[]
+): string => {
+  const conversation = recentMessages
+    .filter(msg => msg.sender !== 'system')
+    .slice(-CONVERSATION_CONTEXT)
+    .map(msg => `${msg.sender === 'user' ? 'User' : 'Assistant'}: ${msg.text}`)
+    .join('\n');
+  const currency = currencyFormatOf(receiptData);
+  const money = (amount: number) => formatCurrency(amount, currency);
+  const examplePrice = currencyDigits(currency.currency) === 0 ? 3000 : 300;
+
+  return `
+You are an intelligent tab-splitting assistant. Your task is to update who had which items on a receipt based on user commands. You do **not** calculate any amounts: prices, tax, tip and totals are worked out by the app from your assignments.
+
+**Key Task:** Modify the list of item assignments based on a user's instruction.
+
+**Example Scenario:**
+- A receipt has an item: { "id": "line-4", "item_name": "Wine", "price": ${examplePrice} }.
+- The current assignments are empty.
+- User says: "Alice and Bob shared the wine, but Bob had twice as much."
+- Your task: Return the assignments [{ "item_id": "line-4", "shares": [{ "person_name": "Alice", "weight": 1 }, { "person_name": "Bob", "weight": 2 }] }] with the reply "Wine (${money(examplePrice)}) is now shared by Alice (${money(examplePrice / 3)}) and Bob (${money((examplePrice * 2) / 3)})."
+
+---
+
+**Currency:** Amounts are in ${currency.currency}. Write them in replies the way the example does.
+
+**Receipt Items:**
+${JSON.stringify(receiptData.items.map(({ id, item_name, quantity, price }) => ({ id, item_name, quantity, price })))}
+
+**Current Assignments:**
+${JSON.stringify(currentAssignments)}
+
+**Recent Conversation:**
+${conversation || '(none)'}
+
+**User Command:**
+"${userInput}"
+
+**Instructions:**
+1.  Analyze the user's command to identify people and items. Refer to items by their \`id\` only. Several lines can share the same \`item_name\`; treat them as separate items and only assign the lines the user means.
+2.  If an item is shared equally (e.g., "Alice and Bob shared..."), give every person a \`weight\` of 1. For uneven splits, use weights in the stated ratio.
+3.  For uneven splits you can also use \`percent\` (e.g., "Bob pays 60% of the wine") or a fixed \`amount\` (e.g., "Alice covers 50 of the platter and the rest is split" gives Alice an \`amount\` share of 50, plus a \`weight\` 1 share for her and everyone else splitting the rest). Set at most one of \`amount\`, \`percent\` and \`units\` per share. Fixed amounts are taken first, then percentages, then units; whatever is left is split by \`weight\`.
+4.  For a line with a \`quantity\` above 1, when the user says how many units someone had (e.g., "Alice had 3 of the 4 draughts"), set \`units\` on that person's share instead of relying on \`weight\`. Units nobody claimed are split by weight among shares without \`units\`.
+5.  Keep every existing assignment the command does not change. If the command reassigns an item, replace its shares entirely. If it removes an item from everyone, leave that item out.
+6.  Return the **entire updated list of assignments** in \`assignments\`, not just the lines you changed.
+7.  In \`reply\`, tell the user in one or two sentences what you changed: which items, who has them now and what each person's part of those line prices comes to. Leave tax, tip and charges out; the app adds those.
+8.  If the command is ambiguous (e.g., "Alice had the burger" when there are two burger lines, or a name that could be two people), do not guess. Set \`needs_clarification\` to true, return the current assignments unchanged, and ask a short question in \`reply\` (e.g., "Which burger, the Classic or the Veggie?"). Use the recent conversation to understand answers to your earlier questions.
+`;
+};
+
+// The model's JSON is checked before anything renders it: a line without a
+// price or a share without a name would break the split.
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const optionalNumber = (value: unknown, field: string): number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!isNumber(value)) throw new Error(`The receipt's ${field} is not a number.`);
+  return value;
+};
+
+const optionalString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+/** Checks a parsed receipt; throws saying which field is missing or wrong. */
+export const checkParsedReceipt = (data: unknown): ParsedReceipt => {
+  if (!isRecord(data) || !Array.isArray(data.items)) throw new Error('The receipt has no items list.');
+  const amount = (field: string) => {
+    const value = optionalNumber(data[field], field);
+    if (value === undefined) throw new Error(`The receipt has no ${field}.`);
+    return value;
+  };
+  const items = data.items.map((item, index) => {
+    const line = `line ${index + 1}`;
+    if (!isRecord(item) || typeof item.item_name !== 'string') throw new Error(`The receipt's ${line} has no name.`);
+    if (!isNumber(item.quantity) || item.quantity <= 0) throw new Error(`The receipt's ${line} has no quantity.`);
+    if (!isNumber(item.price)) throw new Error(`The receipt's ${line} has no price.`);
+    return {
+      item_name: item.item_name,
+      quantity: item.quantity,
+      price: item.price,
+      confidence_score: optionalNumber(item.confidence_score, `${line} confidence_score`) ?? 0,
+      notes: optionalString(item.notes),
+      category: optionalString(item.category),
+    };
+  });
+  if (data.adjustments !== undefined && data.adjustments !== null && !Array.isArray(data.adjustments)) {
+    throw new Error('The receipt\'s adjustments are not a list.');
+  }
+  const adjustments = ((data.adjustments ?? []) as unknown[]).map((adjustment, index) => {
+    const field = `adjustment ${index + 1}`;
+    if (!isRecord(adjustment) || !['discount', 'voucher', 'comp'].includes(adjustment.kind as string) || !['bill', 'category', 'items'].includes(adjustment.scope as string)) {
+      throw new Error(`The receipt's ${field} has no kind or scope.`);
+    }
+    const lineNumbers = adjustment.line_numbers;
+    if (lineNumbers !== undefined && lineNumbers !== null && !(Array.isArray(lineNumbers) && lineNumbers.every(isNumber))) {
+      throw new Error(`The receipt's ${field} has invalid line numbers.`);
+    }
+    return {
+      kind: adjustment.kind as AdjustmentKind,
+      description: optionalString(adjustment.description) ?? (adjustment.kind as string),
+      amount: optionalNumber(adjustment.amount, `${field} amount`),
+      percent: optionalNumber(adjustment.percent, `${field} percent`),
+      scope: adjustment.scope as AdjustmentScope,
+      category: optionalString(adjustment.category),
+      line_numbers: (lineNumbers ?? undefined) as number[] | undefined,
+    };
+  });
+  return {
+    items,
+    adjustments,
+    subtotal: amount('subtotal'),
+    tax: amount('tax'),
+    service_charge: optionalNumber(data.service_charge, 'service_charge'),
+    cover_charge: optionalNumber(data.cover_charge, 'cover_charge'),
+    tip: amount('tip'),
+    total: amount('total'),
+    currency: optionalString(data.currency),
+    locale: optionalString(data.locale),
+  };
+};
+
+export const toReceiptData = ({ currency, locale, ...parsed }: ParsedReceipt): ReceiptData => ({
+  ...parsed,
+  ...normalizeCurrency(currency, locale),
+  items: assignItemIds(parsed.items),
+  adjustments: assignAdjustmentIds((parsed.adjustments ?? []).map(({ line_numbers, ...adjustment }) => ({
+    ...adjustment,
+    item_ids: line_numbers?.map(itemIdForLine),
+  }))),
+});
+
+const toItemShare = (share: unknown): ItemShare => {
+  if (!isRecord(share) || typeof share.person_name !== 'string') {
+    throw new Error('A share has no person_name.');
+  }
+  const { amount, percent, units } = share;
+  const fixed = {
+    ...(isNumber(amount) ? { amount } : {}),
+    ...(isNumber(percent) ? { percent } : {}),
+    ...(isNumber(units) ? { units } : {}),
+  };
+  // Only a share split by weight needs one.
+  if (!isNumber(share.weight) && Object.keys(fixed).length === 0) {
+    throw new Error(`The share for ${share.person_name} has no weight.`);
+  }
+  return { person_name: share.person_name, weight: isNumber(share.weight) ? share.weight : 0, ...fixed };
+};
+
+/**
+ * Checks the model's reply and keeps only assignments for lines on the
+ * receipt. Throws when the reply is not a split update. A question must
+ * never move anything, whatever else came back.
+ */
+export const toSplitUpdate = (data: unknown, receiptData: ReceiptData, currentAssignments: ItemAssignment[]): SplitUpdate => {
+  if (!isRecord(data) || typeof data.reply !== 'string') {
+    throw new Error('The reply has no reply text.');
+  }
+  const needs_clarification = data.needs_clarification === true;
+  if (needs_clarification) {
+    return { assignments: currentAssignments, reply: data.reply, needs_clarification };
+  }
+  if (!Array.isArray(data.assignments)) {
+    throw new Error('The reply has no assignments list.');
+  }
+  const assignments = data.assignments.map((assignment): ItemAssignment => {
+    if (!isRecord(assignment) || typeof assignment.item_id !== 'string' || !Array.isArray(assignment.shares)) {
+      throw new Error('An assignment has no item_id or shares list.');
+    }
+    return { item_id: assignment.item_id, shares: assignment.shares.map(toItemShare) };
+  });
+  // A line listed twice would be allocated twice; repeats are dropped, but two
+  // different splits of one line can't be told apart and are refused.
+  const byLine = new Map<string, ItemAssignment>();
+  for (const assignment of assignments) {
+    const earlier = byLine.get(assignment.item_id);
+    if (earlier && JSON.stringify(earlier.shares) !== JSON.stringify(assignment.shares)) {
+      const line = receiptData.items.find(item => item.id === assignment.item_id);
+      throw new Error(`The reply splits ${line?.item_name ?? assignment.item_id} in two different ways.`);
+    }
+    byLine.set(assignment.item_id, assignment);
+  }
+  const lineIds = new Set(receiptData.items.map(item => item.id));
+  return {
+    assignments: [...byLine.values()].filter(assignment => lineIds.has(assignment.item_id)),
+    reply: data.reply,
+    needs_clarification,
+  };
+};
@@ -0,0 +1,38 @@
+import { ReceiptData, ItemAssignment, ChatMessage, SplitUpdate } from '../types';
+import { geminiProvider } from './geminiService';
+import { openAiCompatibleProvider } from './openAiCompatibleService';
+import { mockProvider } from './mockService';
+import { getAIProviderId } from './preferences';
+
+// Everything the app asks of an AI goes through this interface, so the
+// backend can be swapped at runtime without touching the panels.
+
+export type AIProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface ReceiptImagePart {
+  inlineData: { data: string; mimeType: string };
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  parseReceipt: (image: ReceiptImagePart) => Promise<ReceiptData>;
+  updateBillSplit: (
+    receiptData: ReceiptData,
+    currentAssignments: ItemAssignment[],
+    userInput: string,
+    recentMessages?: ChatMessage[]
+  ) => Promise<SplitUpdate>;
+}
+
+export const AI_PROVIDERS: AIProvider[] = [geminiProvider, openAiCompatibleProvider, mockProvider];
+
+const isProviderId = (id: string | undefined | null): id is AIProviderId =>
+  AI_PROVIDERS.some(provider => provider.id === id);
+
+/** The provider picked on this device, else the build's default, else Gemini. */
+export const getAIProvider = (): AIProvider => {
+  const saved = getAIProviderId();
+  const id = isProviderId(saved) ? saved : isProviderId(process.env.AI_PROVIDER) ? process.env.AI_PROVIDER : 'gemini';
+  return AI_PROVIDERS.find(provider => provider.id === id)!;
+};
@@ -0,0 +1,72 @@
+import { ItemAssignment } from '../types';
+import { ParsedReceipt } from './aiPrompts';
+
+// Fixtures for the mock AI provider. Every upload reads as MOCK_RECEIPT and
+// each command below always gets the same answer, so demos and manual tests
+// can be repeated exactly.
+
+export interface MockCommand {
+  command: string;
+  /** Lines to reassign; lines with no shares are unassigned. */
+  changes: ItemAssignment[];
+  reply: string;
+  needs_clarification?: boolean;
+}
+
+export const MOCK_RECEIPT: ParsedReceipt = {
+  items: [
+    { item_name: 'Nachos', quantity: 1, price: 150, confidence_score: 0.98, category: 'food' },
+    { item_name: 'Castle Lager', quantity: 2, price: 70, confidence_score: 0.95, category: 'drinks' },
+    { item_name: 'Classic Burger', quantity: 1, price: 120, confidence_score: 0.97, category: 'food' },
+    { item_name: 'Veggie Burger', quantity: 1, price: 110, confidence_score: 0.62, category: 'food', notes: 'Name partly smudged.' },
+    { item_name: 'House Red Wine', quantity: 1, price: 300, confidence_score: 0.99, category: 'drinks' },
+  ],
+  adjustments: [],
+  subtotal: 750,
+  tax: 0,
+  service_charge: 0,
+  cover_charge: 0,
+  tip: 75,
+  total: 825,
+  currency: 'ZAR',
+  locale: 'en-ZA',
+};
+
+export const MOCK_COMMANDS: MockCommand[] = [
+  {
+    command: 'Alice and Bob shared the nachos',
+    changes: [{ item_id: 'line-1', shares: [{ person_name: 'Alice', weight: 1 }, { person_name: 'Bob', weight: 1 }] }],
+    reply: 'Nachos (R150.00) is now shared by Alice and Bob, R75.00 each.',
+  },
+  {
+    command: 'Carol had the beers',
+    changes: [{ item_id: 'line-2', shares: [{ person_name: 'Carol', weight: 1 }] }],
+    reply: 'Both Castle Lagers (R70.00) are now Carol\'s.',
+  },
+  {
+    command: 'Alice had the burger',
+    changes: [],
+    reply: 'Which burger, the Classic or the Veggie?',
+    needs_clarification: true,
+  },
+  {
+    command: 'The classic',
+    changes: [{ item_id: 'line-3', shares: [{ person_name: 'Alice', weight: 1 }] }],
+    reply: 'Classic Burger (R120.00) is now Alice\'s.',
+  },
+  {
+    command: 'Bob had the veggie burger',
+    changes: [{ item_id: 'line-4', shares: [{ person_name: 'Bob', weight: 1 }] }],
+    reply: 'Veggie Burger (R110.00) is now Bob\'s.',
+  },
+  {
+    command: 'Everyone shared the wine',
+    changes: [{ item_id: 'line-5', shares: [{ person_name: 'Alice', weight: 1 }, { person_name: 'Bob', weight: 1 }, { person_name: 'Carol', weight: 1 }] }],
+    reply: 'House Red Wine (R300.00) is now shared by Alice, Bob and Carol, R100.00 each.',
+  },
+  {
+    command: 'Nobody had the wine',
+    changes: [{ item_id: 'line-5', shares: [] }],
+    reply: 'House Red Wine is unassigned again.',
+  },
+];
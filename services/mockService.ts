@@ -0,0 +1,54 @@
+import { ReceiptData, ItemAssignment, ChatMessage, SplitUpdate } from '../types';
+import { AIProvider, ReceiptImagePart } from './aiProvider';
+import { toReceiptData } from './aiPrompts';
+import { MOCK_RECEIPT, MOCK_COMMANDS } from './mockFixtures';
+import { setItemAssignment } from '../utils/splitEngine';
+
+// An offline stand-in for a real AI, driven by the fixtures. It needs no key
+// and no network, and the same input always gives the same answer.
+
+// Long enough to see the loading states, short enough not to get in the way.
+const MOCK_DELAY_MS = 300;
+
+const delay = () => new Promise(resolve => setTimeout(resolve, MOCK_DELAY_MS));
+
+const normalise = (text: string) => text.toLowerCase().replace(/[^a-z0-9 ]/g, '').replace(/\s+/g, ' ').trim();
+
+const parseReceipt = async (_image: ReceiptImagePart): Promise<ReceiptData> => {
+  await delay();
+  return toReceiptData(MOCK_RECEIPT);
+};
+
+const updateBillSplit = async (
+  receiptData: ReceiptData,
+  currentAssignments: ItemAssignment[],
+  userInput: string,
+  _recentMessages: ChatMessage[] = []
+): Promise<SplitUpdate> => {
+  await delay();
+  const fixture = MOCK_COMMANDS.find(candidate => normalise(candidate.command) === normalise(userInput));
+  if (!fixture) {
+    return {
+      assignments: currentAssignments,
+      reply: `The mock AI only knows a few commands. Try: ${MOCK_COMMANDS.map(c => `"${c.command}"`).join(', ')}.`,
+      needs_clarification: true,
+    };
+  }
+
+  // Fixtures are written against MOCK_RECEIPT; lines this receipt lacks are skipped.
+  const assignments = fixture.changes
+    .filter(change => receiptData.items.some(item => item.id === change.item_id))
+    .reduce((acc, change) => setItemAssignment(acc, change.item_id, change.shares), currentAssignments);
+  return {
+    assignments: fixture.needs_clarification ? currentAssignments : assignments,
+    reply: fixture.reply,
+    needs_clarification: !!fixture.needs_clarification,
+  };
+};
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  parseReceipt,
+  updateBillSplit,
+};
@@ -0,0 +1,85 @@
+import { ReceiptData, ItemAssignment, ChatMessage, SplitUpdate } from '../types';
+import { AIProvider, ReceiptImagePart } from './aiProvider';
+import { RECEIPT_PROMPT, RECEIPT_JSON_SHAPE, SPLIT_UPDATE_JSON_SHAPE, buildSplitPrompt, checkParsedReceipt, toReceiptData, toSplitUpdate } from './aiPrompts';
+
+// Talks to any server that implements the OpenAI chat completions API:
+// OpenAI itself, or a local server such as llama.cpp, Ollama or LM Studio.
+// The model has to accept images for receipt parsing to work.
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+async function complete(content: ContentPart[]): Promise<string> {
+  const baseUrl = (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  // Local servers usually need no key.
+  if (process.env.OPENAI_API_KEY) {
+    headers.Authorization = `Bearer ${process.env.OPENAI_API_KEY}`;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: process.env.OPENAI_MODEL || DEFAULT_MODEL,
+        messages: [{ role: 'user', content }],
+        response_format: { type: 'json_object' },
+      }),
+    });
+  } catch (err) {
+    console.error(err);
+    throw new Error(`Could not reach the AI server at ${baseUrl}. Check OPENAI_BASE_URL in your .env.local file.`);
+  }
+  if (!response.ok) {
+    throw new Error(`The AI server returned an error (${response.status}). Check the OpenAI-compatible settings in your .env.local file.`);
+  }
+
+  const body = await response.json();
+  return (body.choices?.[0]?.message?.content ?? '').trim();
+}
+
+const parseReceipt = async (image: ReceiptImagePart): Promise<ReceiptData> => {
+  const jsonText = await complete([
+    { type: 'text', text: `${RECEIPT_PROMPT}\nRespond with a single JSON object of this shape:\n${RECEIPT_JSON_SHAPE}` },
+    { type: 'image_url', image_url: { url: `data:${image.inlineData.mimeType};base64,${image.inlineData.data}` } },
+  ]);
+  try {
+    return toReceiptData(checkParsedReceipt(JSON.parse(jsonText)));
+  } catch (e) {
+    console.error("Failed to parse receipt JSON:", jsonText, e);
+    const reason = e instanceof SyntaxError ? '' : ` ${(e as Error).message}`;
+    throw new Error(`The AI returned an invalid format.${reason} Please try another image.`);
+  }
+};
+
+const updateBillSplit = async (
+  receiptData: ReceiptData,
+  currentAssignments: ItemAssignment[],
+  userInput: string,
+  recentMessages: ChatMessage[] = []
+): Promise<SplitUpdate> => {
+  const prompt = buildSplitPrompt(receiptData, currentAssignments, userInput, recentMessages);
+  const jsonText = await complete([
+    { type: 'text', text: `${prompt}\nRespond with a single JSON object of this shape:\n${SPLIT_UPDATE_JSON_SHAPE}` },
+  ]);
+  try {
+    return toSplitUpdate(JSON.parse(jsonText), receiptData, currentAssignments);
+  } catch (e) {
+    console.error("Failed to parse assignments JSON:", jsonText, e);
+    const reason = e instanceof SyntaxError ? '' : ` ${(e as Error).message}`;
+    throw new Error(`The AI returned an invalid format.${reason} Please try rephrasing your command.`);
+  }
+};
+
+export const openAiCompatibleProvider: AIProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  parseReceipt,
+  updateBillSplit,
+};
@@ -0,0 +1,29 @@
+// Device-wide settings that are not part of any one tab. They live in
+// localStorage next to the active tab id.
+
+const CONFIRM_AI_CHANGES_KEY = 'tabsplit:confirmAiChanges';
+
+/** Whether chat changes are shown as a proposal before they are applied. On unless turned off. */
+export const getConfirmAiChanges = (): boolean => localStorage.getItem(CONFIRM_AI_CHANGES_KEY) !== 'false';
+
+export const setConfirmAiChanges = (confirm: boolean): void => {
+  localStorage.setItem(CONFIRM_AI_CHANGES_KEY, String(confirm));
+};
+
+const AI_PROVIDER_KEY = 'tabsplit:aiProvider';
+
+/** The id of the AI provider picked on this device, if any. */
+export const getAIProviderId = (): string | null => localStorage.getItem(AI_PROVIDER_KEY);
+
+export const setAIProviderId = (id: string): void => {
+  localStorage.setItem(AI_PROVIDER_KEY, id);
+};
+
+const HOME_CURRENCY_KEY = 'tabsplit:homeCurrency';
+
+/** The currency new tabs settle up in, once it has been picked on this device. */
+export const getHomeCurrency = (): string | null => localStorage.getItem(HOME_CURRENCY_KEY);
+
+export const setHomeCurrency = (currency: string): void => {
+  localStorage.setItem(HOME_CURRENCY_KEY, currency);
+};
@@ -0,0 +1,128 @@
+import { SavedTab, ReceiptImage } from '../types';
+import { FIRST_RECEIPT_ID } from '../utils/event';
+
+// Tabs are kept in IndexedDB so they survive reloads. Receipt photos live in
+// their own store, keyed by tab id, so listing the history never has to load
+// them. An event's later receipts are keyed "<tab id>/<receipt id>".
+
+const DB_NAME = 'tabsplit';
+const DB_VERSION = 1;
+const TABS_STORE = 'tabs';
+const IMAGES_STORE = 'images';
+const ACTIVE_TAB_KEY = 'tabsplit:activeTabId';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('This browser cannot store tabs (IndexedDB is unavailable).'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TABS_STORE)) {
+          db.createObjectStore(TABS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+          db.createObjectStore(IMAGES_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    // A failed request aborts the transaction, and so can the browser, e.g.
+    // when a receipt photo goes over the storage quota. Rejecting on the
+    // first of these keeps a save from waiting forever.
+    request.onerror = () => reject(request.error);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('The browser stopped the change before it was stored.'));
+  });
+}
+
+export const createTabId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `tab-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const listTabs = async (): Promise<SavedTab[]> => {
+  const tabs = await runRequest<SavedTab[]>(TABS_STORE, 'readonly', store => store.getAll());
+  return tabs.sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+};
+
+export const getTab = async (id: string): Promise<SavedTab | null> =>
+  (await runRequest<SavedTab | undefined>(TABS_STORE, 'readonly', store => store.get(id))) ?? null;
+
+export const saveTab = async (tab: SavedTab): Promise<void> => {
+  await runRequest(TABS_STORE, 'readwrite', store => store.put(tab));
+};
+
+const imageKey = (id: string, receiptId = FIRST_RECEIPT_ID) =>
+  receiptId === FIRST_RECEIPT_ID ? id : `${id}/${receiptId}`;
+
+const receiptIdsOf = (tab: SavedTab): string[] =>
+  [tab.receipt_id ?? FIRST_RECEIPT_ID, ...(tab.other_receipts ?? []).map(receipt => receipt.id)];
+
+export const deleteTab = async (id: string): Promise<void> => {
+  await runRequest(TABS_STORE, 'readwrite', store => store.delete(id));
+  await runRequest(IMAGES_STORE, 'readwrite', store => store.delete(id));
+  await runRequest(IMAGES_STORE, 'readwrite', store => store.delete(IDBKeyRange.bound(`${id}/`, `${id}/\uffff`)));
+};
+
+export const getTabImage = async (id: string, receiptId?: string): Promise<ReceiptImage | null> =>
+  (await runRequest<ReceiptImage | undefined>(IMAGES_STORE, 'readonly', store => store.get(imageKey(id, receiptId)))) ?? null;
+
+export const saveTabImage = async (id: string, image: ReceiptImage, receiptId?: string): Promise<void> => {
+  await runRequest(IMAGES_STORE, 'readwrite', store => store.put(image, imageKey(id, receiptId)));
+};
+
+export const deleteTabImage = async (id: string, receiptId?: string): Promise<void> => {
+  await runRequest(IMAGES_STORE, 'readwrite', store => store.delete(imageKey(id, receiptId)));
+};
+
+export const duplicateTab = async (id: string, name: string): Promise<SavedTab | null> => {
+  const original = await getTab(id);
+  if (!original) return null;
+
+  const now = new Date().toISOString();
+  const copy: SavedTab = { ...original, id: createTabId(), name, created_at: now, updated_at: now };
+  await saveTab(copy);
+  for (const receiptId of receiptIdsOf(original)) {
+    const image = await getTabImage(id, receiptId);
+    if (image) {
+      await saveTabImage(copy.id, image, receiptId);
+    }
+  }
+  return copy;
+};
+
+// The last open tab is remembered outside IndexedDB so it can be restored
+// on reload without listing every tab first.
+export const getActiveTabId = (): string | null => localStorage.getItem(ACTIVE_TAB_KEY);
+
+export const setActiveTabId = (id: string | null): void => {
+  if (id) {
+    localStorage.setItem(ACTIVE_TAB_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_TAB_KEY);
+  }
+};
@@ -1,31 +1,127 @@
 
 export interface ReceiptItem {
+  id: string;
   item_name: string;
   quantity: number;
   price: number;
   confidence_score: number;
   notes?: string;
+  /** Loose grouping such as "food" or "drinks", used to scope discounts. */
+  category?: string;
+}
+
+export type AdjustmentKind = 'discount' | 'voucher' | 'comp';
+export type AdjustmentScope = 'bill' | 'category' | 'items';
+
+/**
+ * A reduction that applies to more than one line, e.g. "10% off food" or a
+ * voucher. Exactly one of `amount` and `percent` is expected.
+ */
+export interface ReceiptAdjustment {
+  id: string;
+  kind: AdjustmentKind;
+  description: string;
+  /** Fixed amount taken off the affected lines. */
+  amount?: number;
+  /** Percentage taken off the affected lines. */
+  percent?: number;
+  scope: AdjustmentScope;
+  /** The category affected when `scope` is 'category'. */
+  category?: string;
+  /** The lines affected when `scope` is 'items'. */
+  item_ids?: string[];
 }
 
 export interface ReceiptData {
   items: ReceiptItem[];
+  /** Whole-bill, category or multi-line reductions, applied after the items. */
+  adjustments?: ReceiptAdjustment[];
   subtotal: number;
   tax: number;
+  /** Mandatory service charge printed on the receipt, kept apart from the tip. */
+  service_charge?: number;
+  /** Cover or table charge printed on the receipt. */
+  cover_charge?: number;
   tip: number;
   total: number;
+  /** ISO 4217 code such as "ZAR" or "JPY"; receipts without one are in rand. */
+  currency?: string;
+  /** BCP 47 locale the amounts are formatted in, e.g. "en-ZA". */
+  locale?: string;
+}
+
+export type ChargeSplitMode = 'proportional' | 'equal';
+
+/** How a tab's charges are shared out; lives with the tab, not the receipt. */
+export interface TabPolicy {
+  tip_split: ChargeSplitMode;
+  /** Tip as a percentage of the items, replacing the receipt's tip when set. */
+  tip_percent: number | null;
+  /** People who don't contribute to the tip. */
+  tip_exempt: string[];
+  service_split: ChargeSplitMode;
+  cover_split: ChargeSplitMode;
+  /** Refuse to split while the receipt has blocking validation issues. */
+  block_on_invalid_receipt: boolean;
+}
+
+/**
+ * One person's share of a line. At most one of `amount`, `percent` and
+ * `units` is expected; when none is set the line (or what is left of it
+ * after the other shares) is divided by `weight`, so equal shares all use 1.
+ */
+export interface ItemShare {
+  person_name: string;
+  weight: number;
+  /** Fixed amount of the line this person covers. */
+  amount?: number;
+  /** Percentage of the line price this person covers. */
+  percent?: number;
+  /** Units of a multi-quantity line this person had. */
+  units?: number;
+}
+
+export interface ItemAssignment {
+  item_id: string;
+  shares: ItemShare[];
+}
+
+/** The assistant's answer to a chat command. */
+export interface SplitUpdate {
+  assignments: ItemAssignment[];
+  /** What was changed, or a question when the command was ambiguous. */
+  reply: string;
+  /** True when the reply is a question and the assignments were left as they were. */
+  needs_clarification: boolean;
+}
+
+/** A chat change waiting for the user to accept, edit or reject it. */
+export interface SplitProposal {
+  command: string;
+  /** The assignments the proposal was made against. */
+  base: ItemAssignment[];
+  assignments: ItemAssignment[];
 }
 
 export interface AssignedItem {
+  item_id: string;
   item_name: string;
   price: number;
+  units?: number;
 }
 
 export interface PersonSplit {
   person_name: string;
   items: AssignedItem[];
   subtotal: number;
+  /** This person's part of the receipt's discounts, vouchers and comps. */
+  discount: number;
   tax: number;
+  service_charge: number;
+  cover_charge: number;
   tip: number;
+  /** Rounding cents needed to reconcile with the receipt's printed total. */
+  adjustment: number;
   total: number;
 }
 
@@ -34,4 +130,130 @@ export type BillSplit = PersonSplit[];
 export interface ChatMessage {
   sender: 'user' | 'bot' | 'system';
   text: string;
-}
\ No newline at end of file
+  /** The split version this message produced, if any. */
+  version_id?: number;
+}
+
+export interface ReceiptImage {
+  data: string;
+  mimeType: string;
+}
+
+/** People who pay as one, e.g. a couple. */
+export interface TabGroup {
+  name: string;
+  members: string[];
+}
+
+/** Everyone on the tab, including people who have nothing assigned yet. */
+export interface Roster {
+  people: string[];
+  groups: TabGroup[];
+}
+
+export type PaymentMethod = 'card' | 'cash' | 'other';
+
+/** Money someone actually put toward the bill at the venue. */
+export interface Payment {
+  id: string;
+  person_name: string;
+  amount: number;
+  method: PaymentMethod;
+  /** ISO 4217 code of the amount; the settle-up currency when absent. */
+  currency?: string;
+}
+
+/** One person paying another back after the bill. */
+export interface Transfer {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+export interface Settlement {
+  payments: Payment[];
+  /** Keys of the transfers marked as paid back, see `transferKey`. */
+  paid_transfers: string[];
+}
+
+/** How many units of `to` one unit of `from` buys. */
+export interface ExchangeRate {
+  from: string;
+  to: string;
+  rate: number;
+  source: 'manual' | 'file';
+}
+
+/** Converting foreign receipts into the currency people actually pay in. */
+export interface FxSettings {
+  /** The currency the tab settles up in; the first receipt's when unset. */
+  home_currency?: string;
+  rates: ExchangeRate[];
+  /** People whose own home currency differs from the tab's, by name. */
+  person_currencies: Record<string, string>;
+  /** Foreign transaction fee each person's card charges, as a percentage. */
+  card_fees: Record<string, number>;
+}
+
+/**
+ * One receipt of an event, e.g. dinner and then drinks somewhere else. Each
+ * receipt is split on its own, with its own tax and tip.
+ */
+export interface EventReceipt {
+  id: string;
+  name: string;
+  receipt: ReceiptData;
+  policy: TabPolicy;
+  split_history: SplitHistory;
+  chat_messages: ChatMessage[];
+}
+
+/** A tab as it is stored locally; the receipt photo is stored separately. */
+export interface SavedTab {
+  id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+  receipt: ReceiptData;
+  assignments: ItemAssignment[];
+  policy: TabPolicy;
+  chat_messages: ChatMessage[];
+  split_history?: SplitHistory;
+  /** Shared by every receipt of the event. */
+  roster?: Roster;
+  settlement?: Settlement;
+  fx?: FxSettings;
+  /** The open receipt's id and name; the fields above hold its data. */
+  receipt_id?: string;
+  receipt_name?: string;
+  /** The event's other receipts, if it has more than one. */
+  other_receipts?: EventReceipt[];
+}
+
+/** A tab written out to a file; `version` changes whenever `tab`'s shape does. */
+export interface TabExport {
+  format: 'tabsplit-tab';
+  version: number;
+  exported_at: string;
+  tab: SavedTab;
+  /** SHA-256 of `tab` as JSON, so a file or link changed after export is refused. */
+  checksum?: string;
+}
+
+export type SplitChangeSource = 'chat' | 'manual' | 'receipt';
+
+/** One step in a tab's assignment history, kept for undo/redo and auditing. */
+export interface SplitVersion {
+  id: number;
+  assignments: ItemAssignment[];
+  source: SplitChangeSource;
+  /** The chat command or a summary of the manual edit that produced it. */
+  description: string;
+  created_at: string;
+}
+
+export interface SplitHistory {
+  versions: SplitVersion[];
+  /** The version currently in effect; later versions can be redone. */
+  index: number;
+}
@@ -0,0 +1,326 @@
+import { ReceiptData, ReceiptItem, ItemAssignment, ItemShare, SplitUpdate, Roster } from '../types';
+import { computeBillSplit, equalShares, getItemShares, setItemAssignment } from './splitEngine';
+import { findGroup, moveItems, removeFromAssignments, rosterNames } from './roster';
+import { currencyFormatOf, formatCurrency } from './currency';
+
+// A small grammar for the chat commands people type most, such as
+// "Alice had the burger", "Bob and Carol shared the nachos" or "split the
+// rest evenly", plus whole-tab commands like "give Alice's items to Bob".
+// It runs before the AI and answers only when it is sure;
+// anything it cannot fully resolve returns null and goes to the AI instead.
+
+const ASSIGN_VERBS = ['had', 'has', 'have', 'ate', 'drank', 'ordered', 'got', 'took'];
+const SHARE_VERBS = ['shared', 'share', 'split', 'splits'];
+const BULK_VERBS = ['give', 'move', 'transfer', 'assign', 'unassign', 'remove', 'clear'];
+const VERB = new RegExp(`\\b(?:${[...ASSIGN_VERBS, ...SHARE_VERBS, ...BULK_VERBS].join('|')})\\b`);
+
+const CLEAR = /^(?:(?:nobody|no one|noone) (?:had|has) |(?:unassign|clear|remove) )(.+)$/;
+const SUBJECTLESS_SPLIT = /^(?:split|share) (.+?)(?: (?:evenly|equally))?(?: (?:between|among|amongst) (.+?))?(?: (?:evenly|equally))?$/;
+const CLAUSE = new RegExp(`^(.+?) (${[...ASSIGN_VERBS, ...SHARE_VERBS].join('|')}) (.+?)(?: (each|evenly|equally|between (?:them|us)))?$`);
+const GIVE = /^(?:give|move|transfer|assign) (.+?) to (.+)$/;
+const OWNED = /^(?:everything (?:from|of) |all of )?(.+?)(?:'s? (?:items|things|stuff|share|shares|order|orders))?$/;
+const COUNT = /^(\d+|one|two|three|four|five|six|seven|eight|nine|ten) (?:of (?:the )?)?(.+)$/;
+const LINE_REFERENCE = /^(?:line|item|#) ?(\d+)$/;
+
+const EVERYONE = /^(?:everyone|everybody|all of us|we all|all)$/;
+const EVERYONE_ELSE = /^(?:everyone else|everybody else|the others|the rest of us)$/;
+const EVERYONE_EXCEPT = /^(?:everyone|everybody) (?:except|but|apart from) (.+)$/;
+const THE_REST = /^(?:the rest|everything else|whatever is left|what's left|the remainder|the remaining items)$/;
+const EVERYTHING = /^(?:everything|all of it|the whole bill|the whole tab|all the items)$/;
+const NAME = /^[a-z][a-z'-]*$/;
+// "Alice didn't have the nachos" means the opposite of what the grammar would
+// read, so any negation goes to the AI.
+const NEGATION = /\b(?:not|never|nor|no longer|without|\w+n['’]t|didnt|dont|doesnt|hasnt|havent|hadnt|wasnt)\b/;
+// "Alice and Bob both had" and "Alice also had" name the same people without them.
+const PEOPLE_ADVERBS = /(?: (?:also|both|too|together))+$/;
+
+const NUMBER_WORDS = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten'];
+const NOT_PEOPLE = new Set([
+  'i', 'me', 'we', 'us', 'you', 'he', 'she', 'they', 'them', 'someone', 'somebody', 'it', 'the', 'a', 'an', 'and',
+  'also', 'both', 'too', 'together', 'just', 'only', 'then', 'never', 'not', 'no', 'nobody', 'waiter', 'waitress', 'server',
+]);
+const ITEM_STOP_WORDS = new Set(['the', 'a', 'an', 'of', 'some', 'our', 'my', 'his', 'her', 'their', 'those', 'these', 'that', 'this', 'both']);
+
+type TargetMatch =
+  | { kind: 'items'; items: ReceiptItem[] }
+  | { kind: 'ambiguous'; phrase: string; items: ReceiptItem[] };
+
+const normalise = (text: string) =>
+  text.toLowerCase().replace(/[“”"]/g, '').replace(/\s+/g, ' ').trim();
+
+const singular = (word: string) =>
+  word.length > 3 && word.endsWith('ies') ? `${word.slice(0, -3)}y` :
+  word.length > 3 && /(?:s|x|ch|sh)es$/.test(word) ? word.slice(0, -2) :
+  word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) :
+  word;
+
+const tokens = (text: string) =>
+  normalise(text).split(/[^a-z0-9]+/).filter(word => word && !ITEM_STOP_WORDS.has(word)).map(singular);
+
+const editDistance = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+};
+
+// Tolerates one typo, and prefixes like "veg" for "veggie", in longer words.
+const tokenMatches = (typed: string, actual: string) =>
+  typed === actual ||
+  (typed.length >= 3 && actual.startsWith(typed)) ||
+  (typed.length >= 4 && editDistance(typed, actual) <= 1);
+
+const titleCase = (name: string) => name.replace(/(^|[\s'-])([a-z])/g, (_, sep, c) => sep + c.toUpperCase());
+
+const matchPhrase = (items: ReceiptItem[], phrase: string): TargetMatch | null => {
+  const lineReference = phrase.match(LINE_REFERENCE);
+  if (lineReference) {
+    const item = items.find(i => i.id === `line-${lineReference[1]}`);
+    return item ? { kind: 'items', items: [item] } : null;
+  }
+
+  const typed = tokens(phrase);
+  if (typed.length === 0) return null;
+  const candidates = items.filter(item => {
+    const actual = tokens(item.item_name);
+    return typed.every(word => actual.some(name => tokenMatches(word, name)));
+  });
+  if (candidates.length <= 1) {
+    return candidates.length === 1 ? { kind: 'items', items: candidates } : null;
+  }
+
+  // "the burger" when the receipt has "Burger" and "Cheese Burger" means "Burger".
+  const exact = candidates.filter(item => tokens(item.item_name).length === typed.length);
+  if (exact.length === 1) return { kind: 'items', items: exact };
+  // A plural ("the beers") covers every matching line.
+  const lastWord = normalise(phrase).split(' ').pop() ?? '';
+  if (singular(lastWord) !== lastWord) return { kind: 'items', items: candidates };
+  return { kind: 'ambiguous', phrase, items: candidates };
+};
+
+const splitList = (text: string) => text.split(/\s*,\s*(?:and\s+)?|\s+and\s+|\s*&\s*/).filter(Boolean);
+
+const describeItems = (items: ReceiptItem[]) => items.map(item => item.item_name).join(', ');
+
+/** A command and the state it is being applied to. */
+interface ParseState {
+  receipt: ReceiptData;
+  assignments: ItemAssignment[];
+  roster: Roster;
+  people: string[];
+  mentioned: Set<string>;
+}
+
+const knownPerson = (state: ParseState, name: string) => state.people.find(p => p.toLowerCase() === normalise(name));
+
+const resolveTargets = (state: ParseState, phrase: string): TargetMatch | null => {
+  const text = normalise(phrase);
+  if (THE_REST.test(text)) {
+    const rest = state.receipt.items.filter(item => getItemShares(state.assignments, item.id).length === 0);
+    return rest.length > 0 ? { kind: 'items', items: rest } : null;
+  }
+  if (EVERYTHING.test(text)) return { kind: 'items', items: state.receipt.items };
+
+  const whole = matchPhrase(state.receipt.items, text);
+  if (whole) return whole;
+
+  // "the burger and the wine": every part has to match on its own.
+  const parts = splitList(text);
+  if (parts.length < 2) return null;
+  const matched: ReceiptItem[] = [];
+  for (const part of parts) {
+    const match = matchPhrase(state.receipt.items, part);
+    if (!match || match.kind === 'ambiguous') return match;
+    matched.push(...match.items.filter(item => !matched.includes(item)));
+  }
+  return { kind: 'items', items: matched };
+};
+
+// Names on the tab resolve as typed; someone new has to be a single word
+// that is plainly a name, so "the waiter" or "Alice also" never becomes a person.
+const resolvePeople = (state: ParseState, phrase: string): string[] | null => {
+  const text = normalise(phrase).replace(PEOPLE_ADVERBS, '');
+  // A group's name ("the couple") stands for all of its members.
+  const names = (list: string) => {
+    const parts = splitList(list);
+    const resolved: string[] = [];
+    for (const part of parts) {
+      const group = findGroup(state.roster, part.replace(/^the /, ''));
+      const known = knownPerson(state, part);
+      if (group) resolved.push(...group.members);
+      else if (known) resolved.push(known);
+      else if (NAME.test(part) && !NOT_PEOPLE.has(part)) resolved.push(titleCase(part));
+      else return null;
+    }
+    return resolved;
+  };
+
+  let resolved: string[] | null;
+  const except = text.match(EVERYONE_EXCEPT);
+  if (EVERYONE.test(text)) {
+    resolved = state.people;
+  } else if (EVERYONE_ELSE.test(text)) {
+    resolved = state.people.filter(p => !state.mentioned.has(p));
+  } else if (except) {
+    const excluded = names(except[1]);
+    resolved = excluded ? state.people.filter(p => !excluded.includes(p)) : null;
+  } else {
+    resolved = names(text);
+  }
+  if (!resolved || resolved.length === 0) return null;
+  const unique = Array.from(new Set(resolved));
+  unique.forEach(p => state.mentioned.add(p));
+  return unique;
+};
+
+const sharesFor = (item: ReceiptItem, people: string[], modifier: string | undefined, count: number | null): ItemShare[] | null => {
+  if (count !== null && item.quantity <= 1) {
+    return count === 1 ? equalShares(people) : null;
+  }
+  if (count !== null) {
+    // "Alice had 2 of the beers" claims units and leaves everyone else's share alone.
+    if (people.length !== 1 || count > item.quantity) return null;
+    return [{ person_name: people[0], weight: 1, units: count }];
+  }
+  if (modifier === 'each' && people.length > 1) {
+    if (item.quantity < people.length) return null;
+    return people.map(person_name => ({ person_name, weight: 1, units: 1 }));
+  }
+  return equalShares(people);
+};
+
+const describeLine = (state: ParseState, item: ReceiptItem): string => {
+  const assignment = { item_id: item.id, shares: getItemShares(state.assignments, item.id) };
+  if (assignment.shares.length === 0) return `${item.item_name} is unassigned`;
+  const parts = computeBillSplit(state.receipt, [assignment])
+    .map(person => `${person.person_name} ${formatCurrency(person.subtotal, currencyFormatOf(state.receipt))}`);
+  return `${item.item_name} → ${parts.join(', ')}`;
+};
+
+type ClauseResult = { changed: ReceiptItem[] } | { question: string } | null;
+
+const linesHeldBy = (state: ParseState, name: string) =>
+  state.receipt.items.filter(item => getItemShares(state.assignments, item.id).some(share => share.person_name === name));
+
+const applyClause = (state: ParseState, clause: string): ClauseResult => {
+  let peoplePhrase: string | null = null;
+  let targetPhrase: string;
+  let modifier: string | undefined;
+
+  const clear = clause.match(CLEAR);
+  const give = clause.match(GIVE);
+  const subjectless = clause.match(SUBJECTLESS_SPLIT);
+  const full = clause.match(CLAUSE);
+  // "remove Alice" and "give Alice's items to Bob" act on a person, not a line.
+  const owner = clear ? knownPerson(state, clear[1]) : give ? knownPerson(state, give[1].match(OWNED)![1]) : undefined;
+  if (owner && clear) {
+    const changed = linesHeldBy(state, owner);
+    state.assignments = removeFromAssignments(state.assignments, owner);
+    return changed.length > 0 ? { changed } : null;
+  }
+  if (owner && give) {
+    const recipients = resolvePeople(state, give[2]);
+    if (!recipients || recipients.length !== 1) return null;
+    const changed = linesHeldBy(state, owner);
+    state.assignments = moveItems(state.assignments, owner, recipients[0]);
+    return changed.length > 0 ? { changed } : null;
+  }
+
+  if (clear) {
+    targetPhrase = clear[1];
+  } else if (give) {
+    [, targetPhrase, peoplePhrase] = give;
+  } else if (subjectless) {
+    targetPhrase = subjectless[1];
+    peoplePhrase = subjectless[2] ?? 'everyone';
+  } else if (full) {
+    [, peoplePhrase, , targetPhrase, modifier] = full;
+  } else {
+    return null;
+  }
+
+  const people = peoplePhrase === null ? [] : resolvePeople(state, peoplePhrase);
+  if (!people) return null;
+
+  const countMatch = targetPhrase.match(COUNT);
+  const count = countMatch ? (NUMBER_WORDS.includes(countMatch[1]) ? NUMBER_WORDS.indexOf(countMatch[1]) + 1 : Number(countMatch[1])) : null;
+  const targets = resolveTargets(state, countMatch ? countMatch[2] : targetPhrase);
+  if (!targets) return null;
+  if (targets.kind === 'ambiguous') {
+    return { question: `Which ${targets.phrase.replace(/^the /, '')} do you mean: ${describeItems(targets.items)}?` };
+  }
+  if (count !== null && targets.items.length !== 1) return null;
+
+  for (const item of targets.items) {
+    if (peoplePhrase === null) {
+      state.assignments = setItemAssignment(state.assignments, item.id, []);
+      continue;
+    }
+    const shares = sharesFor(item, people, modifier, count);
+    if (!shares) return null;
+    const kept = count !== null && item.quantity > 1
+      ? getItemShares(state.assignments, item.id).filter(share => share.person_name !== people[0])
+      : [];
+    state.assignments = setItemAssignment(state.assignments, item.id, [...kept, ...shares]);
+  }
+  return { changed: targets.items };
+};
+
+// "Alice had the burger and Bob had the wine" is two clauses, but "Alice and
+// Bob had the burger and the wine" is one: a new clause starts only where
+// both sides of the "and" have a verb.
+const splitClauses = (command: string): string[] =>
+  command.split(/[.;!?\n]+|,?\s+then\s+/).flatMap(sentence => {
+    const pieces = sentence.split(/(,\s*(?:and\s+)?|\s+and\s+)/);
+    const clauses: string[] = [];
+    let current = pieces[0] ?? '';
+    for (let i = 1; i < pieces.length; i += 2) {
+      const next = pieces[i + 1] ?? '';
+      if (VERB.test(current) && VERB.test(next)) {
+        clauses.push(current);
+        current = next;
+      } else {
+        current += pieces[i] + next;
+      }
+    }
+    return [...clauses, current];
+  }).map(normalise).filter(Boolean);
+
+/**
+ * Applies a chat command locally. The roster supplies "everyone", "everyone
+ * else" and group names. Returns null when the command needs the AI.
+ */
+export const interpretCommand = (
+  receipt: ReceiptData,
+  assignments: ItemAssignment[],
+  command: string,
+  roster: Roster
+): SplitUpdate | null => {
+  const people = rosterNames(roster, assignments);
+  const state: ParseState = { receipt, assignments, roster, people, mentioned: new Set() };
+  const changed: ReceiptItem[] = [];
+  if (NEGATION.test(normalise(command))) return null;
+
+  for (const clause of splitClauses(command)) {
+    const result = applyClause(state, clause);
+    if (!result) return null;
+    if ('question' in result) {
+      return { assignments, reply: result.question, needs_clarification: true };
+    }
+    changed.push(...result.changed.filter(item => !changed.includes(item)));
+  }
+  if (changed.length === 0) return null;
+
+  return {
+    assignments: state.assignments,
+    reply: `${changed.map(item => describeLine(state, item)).join('; ')}.`,
+    needs_clarification: false,
+  };
+};
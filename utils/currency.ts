@@ -0,0 +1,136 @@
+import { ReceiptData } from '../types';
+
+// Each receipt carries its currency and the locale it is shown in. Receipts
+// stored before currencies existed are rands, so that stays the default.
+
+export interface CurrencyFormat {
+  /** ISO 4217 code, e.g. "ZAR" or "JPY". */
+  currency: string;
+  /** BCP 47 locale used for number formatting, e.g. "en-ZA". */
+  locale: string;
+}
+
+export const DEFAULT_CURRENCY: CurrencyFormat = { currency: 'ZAR', locale: 'en-ZA' };
+
+/** Offered in the currency picker, each with the locale it is usually written in. */
+export const COMMON_CURRENCIES: CurrencyFormat[] = [
+  { currency: 'ZAR', locale: 'en-ZA' },
+  { currency: 'USD', locale: 'en-US' },
+  { currency: 'EUR', locale: 'de-DE' },
+  { currency: 'GBP', locale: 'en-GB' },
+  { currency: 'JPY', locale: 'ja-JP' },
+  { currency: 'AUD', locale: 'en-AU' },
+  { currency: 'CAD', locale: 'en-CA' },
+  { currency: 'CHF', locale: 'de-CH' },
+  { currency: 'CNY', locale: 'zh-CN' },
+  { currency: 'INR', locale: 'en-IN' },
+  { currency: 'KRW', locale: 'ko-KR' },
+  { currency: 'NZD', locale: 'en-NZ' },
+  { currency: 'THB', locale: 'th-TH' },
+  { currency: 'NAD', locale: 'en-NA' },
+  { currency: 'BWP', locale: 'en-BW' },
+  { currency: 'KES', locale: 'en-KE' },
+];
+
+/** Locales offered alongside the currency, e.g. euros written the French way. */
+export const COMMON_LOCALES = [
+  'en-ZA', 'en-US', 'en-GB', 'en-AU', 'de-DE', 'fr-FR', 'es-ES', 'it-IT', 'nl-NL', 'pt-PT', 'ja-JP', 'zh-CN', 'ko-KR', 'th-TH', 'en-IN',
+];
+
+// Symbols on a receipt, most specific first: "R" alone is checked last
+// because it also starts plenty of item names.
+const SYMBOLS: [RegExp, string][] = [
+  [/\bUS\$|\$\s?US\b/, 'USD'],
+  [/\bA\$/, 'AUD'],
+  [/\bNZ\$/, 'NZD'],
+  [/\bC\$|\bCA\$/, 'CAD'],
+  [/€/, 'EUR'],
+  [/£/, 'GBP'],
+  [/円|￥|¥/, 'JPY'],
+  [/₩/, 'KRW'],
+  [/₹/, 'INR'],
+  [/฿/, 'THB'],
+  [/\bCHF\b/, 'CHF'],
+  [/\bKSh\b/, 'KES'],
+  [/\$/, 'USD'],
+  [/\bR\s?\d/, 'ZAR'],
+];
+
+export const isCurrencyCode = (code: string): boolean => {
+  if (!/^[A-Z]{3}$/.test(code)) return false;
+  // Any three letters format without error, so ask for the real list where we can.
+  if (typeof Intl.supportedValuesOf === 'function') return Intl.supportedValuesOf('currency').includes(code);
+  try {
+    new Intl.NumberFormat('en', { style: 'currency', currency: code });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const isLocale = (locale: string): boolean => {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf([locale]).length > 0;
+  } catch {
+    return false;
+  }
+};
+
+/** The locale a currency is usually written in, if it is one we know. */
+export const defaultLocaleFor = (currency: string): string =>
+  COMMON_CURRENCIES.find(common => common.currency === currency)?.locale ?? DEFAULT_CURRENCY.locale;
+
+/** A currency shown the way it is usually written. */
+export const currencyFormatFor = (currency: string): CurrencyFormat => ({ currency, locale: defaultLocaleFor(currency) });
+
+/** An ISO code for the currency printed on a receipt, or null when nothing gives it away. */
+export const detectCurrency = (text: string): string | null => {
+  const code = text.match(/\b([A-Z]{3})\b/g)?.find(candidate => COMMON_CURRENCIES.some(common => common.currency === candidate));
+  if (code) return code;
+  return SYMBOLS.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+};
+
+/** Cleans up a currency and locale reported for a receipt, dropping anything unknown. */
+export const normalizeCurrency = (currency?: string, locale?: string): Partial<CurrencyFormat> => {
+  const code = currency?.trim().toUpperCase();
+  if (!code || !isCurrencyCode(code)) return {};
+  return { currency: code, locale: locale && isLocale(locale) ? locale : defaultLocaleFor(code) };
+};
+
+export const currencyFormatOf = (receipt: ReceiptData | null | undefined): CurrencyFormat => ({
+  currency: receipt?.currency ?? DEFAULT_CURRENCY.currency,
+  locale: receipt?.locale ?? (receipt?.currency ? defaultLocaleFor(receipt.currency) : DEFAULT_CURRENCY.locale),
+});
+
+/** Decimal places in the currency's minor unit: 2 for rands, 0 for yen. */
+export const currencyDigits = (currency: string): number => {
+  try {
+    return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+};
+
+export const receiptDigits = (receipt: ReceiptData): number => currencyDigits(currencyFormatOf(receipt).currency);
+
+export const formatCurrency = (amount: number, format: CurrencyFormat = DEFAULT_CURRENCY): string =>
+  amount.toLocaleString(format.locale, { style: 'currency', currency: format.currency });
+
+/** The symbol amounts are written with, e.g. "R" for rands or "¥" for yen. */
+export const currencySymbol = (format: CurrencyFormat): string =>
+  new Intl.NumberFormat(format.locale, { style: 'currency', currency: format.currency, currencyDisplay: 'narrowSymbol' })
+    .formatToParts(0)
+    .find(part => part.type === 'currency')?.value ?? format.currency;
+
+/** The input step for amounts in this currency, e.g. "0.01" or "1". */
+export const amountStep = (format: CurrencyFormat): string =>
+  String(1 / 10 ** currencyDigits(format.currency));
+
+export const currencyLabel = (code: string): string => {
+  try {
+    const name = new Intl.DisplayNames(['en'], { type: 'currency' }).of(code);
+    return name && name !== code ? `${code} (${name})` : code;
+  } catch {
+    return code;
+  }
+};
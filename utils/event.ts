@@ -0,0 +1,126 @@
+import { BillSplit, EventReceipt, ExchangeRate, ItemAssignment, SavedTab, TabPolicy } from '../types';
+import { computeBillSplit, getEffectiveCharges } from './splitEngine';
+import { createSplitHistory, createVersionId, currentAssignments, pushVersion } from './splitHistory';
+import { toMinor, fromMinor } from './money';
+import { currencyDigits, currencyFormatOf } from './currency';
+import { convertAmount, convertShares, missingRates } from './fx';
+
+// A tab can be an event with several receipts. Each receipt is split on its
+// own; the ledger converts everyone's totals into the settle-up currency and
+// adds them up across the receipts so the event settles up once.
+
+export const FIRST_RECEIPT_ID = 'receipt-1';
+
+const RECEIPT_ID_PREFIX = 'receipt-';
+
+export const nextReceiptId = (ids: string[]): string => {
+  const highest = ids.reduce((max, id) => {
+    const n = Number(id.slice(RECEIPT_ID_PREFIX.length));
+    return Number.isFinite(n) ? Math.max(max, n) : max;
+  }, 0);
+  return `${RECEIPT_ID_PREFIX}${highest + 1}`;
+};
+
+export const defaultReceiptName = (id: string): string =>
+  `Receipt ${id.slice(RECEIPT_ID_PREFIX.length)}`;
+
+/** Receipts in the order they were added. */
+export const byReceiptOrder = <T extends { id: string }>(receipts: T[]): T[] =>
+  [...receipts].sort((a, b) => Number(a.id.slice(RECEIPT_ID_PREFIX.length)) - Number(b.id.slice(RECEIPT_ID_PREFIX.length)));
+
+/** Every receipt of a saved tab, the open one included, in the order they were added. */
+export const tabReceipts = (tab: SavedTab): EventReceipt[] => {
+  const id = tab.receipt_id ?? FIRST_RECEIPT_ID;
+  return byReceiptOrder([
+    {
+      id,
+      name: tab.receipt_name ?? defaultReceiptName(id),
+      receipt: tab.receipt,
+      policy: tab.policy,
+      split_history: tab.split_history ?? createSplitHistory(tab.assignments),
+      chat_messages: tab.chat_messages,
+    },
+    ...(tab.other_receipts ?? []),
+  ]);
+};
+
+/**
+ * Changes a receipt that is not open, e.g. when someone is renamed across the
+ * event. The change is a new version of its split, so it can be undone there.
+ */
+export const updateEventReceipt = (
+  entry: EventReceipt,
+  update: (prev: ItemAssignment[]) => ItemAssignment[],
+  updatePolicy: (prev: TabPolicy) => TabPolicy,
+  description: string
+): EventReceipt => ({
+  ...entry,
+  policy: updatePolicy(entry.policy),
+  split_history: pushVersion(entry.split_history, createVersionId(), update(currentAssignments(entry.split_history)), 'manual', description),
+});
+
+export interface ReceiptSplit {
+  id: string;
+  name: string;
+  currency: string;
+  billSplit: BillSplit;
+  /** The receipt's total with the tab policy's tip applied. */
+  total: number;
+}
+
+export const splitEventReceipt = (entry: EventReceipt): ReceiptSplit => ({
+  id: entry.id,
+  name: entry.name,
+  currency: currencyFormatOf(entry.receipt).currency,
+  billSplit: computeBillSplit(entry.receipt, currentAssignments(entry.split_history), entry.policy),
+  total: getEffectiveCharges(entry.receipt, entry.policy).total,
+});
+
+export interface LedgerRow {
+  person_name: string;
+  /** What the person owes on each receipt, in its own currency, by receipt id. */
+  by_receipt: Record<string, number>;
+  /** The same amounts in the ledger's currency. */
+  converted_by_receipt: Record<string, number>;
+  /** In the ledger's currency. */
+  total: number;
+}
+
+export interface Ledger {
+  /** The settle-up currency everything is converted into. */
+  currency: string;
+  rows: LedgerRow[];
+  /** The converted receipts' combined total. */
+  total: number;
+  /** Receipt currencies with no rate yet; those receipts are left out. */
+  missing_rates: string[];
+}
+
+/** Everyone's totals across all the receipts, in the order people first appear. */
+export const buildLedger = (splits: ReceiptSplit[], currency: string, rates: ExchangeRate[]): Ledger => {
+  const digits = currencyDigits(currency);
+  const rows = new Map<string, LedgerRow>();
+  let totalMinor = 0;
+  splits.forEach(({ id, currency: receiptCurrency, billSplit, total }) => {
+    const converted = convertShares(billSplit, total, receiptCurrency, currency, rates);
+    billSplit.forEach(person => {
+      if (!rows.has(person.person_name)) {
+        rows.set(person.person_name, { person_name: person.person_name, by_receipt: {}, converted_by_receipt: {}, total: 0 });
+      }
+      const row = rows.get(person.person_name)!;
+      row.by_receipt[id] = person.total;
+      if (converted) row.converted_by_receipt[id] = converted[person.person_name];
+    });
+    const convertedTotal = convertAmount(total, receiptCurrency, currency, rates);
+    if (convertedTotal !== null) totalMinor += toMinor(convertedTotal, digits);
+  });
+  return {
+    currency,
+    rows: Array.from(rows.values()).map(row => ({
+      ...row,
+      total: fromMinor(Object.values(row.converted_by_receipt).reduce((acc, amount) => acc + toMinor(amount, digits), 0), digits),
+    })),
+    total: fromMinor(totalMinor, digits),
+    missing_rates: missingRates(splits.map(split => split.currency), currency, rates),
+  };
+};
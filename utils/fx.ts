@@ -0,0 +1,229 @@
+import { ExchangeRate, FxSettings, Payment } from '../types';
+import { toMinor, fromMinor, allocateMinor } from './money';
+import { currencyDigits, isCurrencyCode } from './currency';
+
+// Foreign receipts are split in their own currency, then each person's share
+// is converted. Conversions are allocated from the converted receipt total,
+// like any other charge, so they add back up to it exactly.
+
+export const EMPTY_FX_SETTINGS: FxSettings = { rates: [], person_currencies: {}, card_fees: {} };
+
+type RateGraph = Map<string, Map<string, number>>;
+
+const rateGraph = (rates: ExchangeRate[]): RateGraph => {
+  const graph: RateGraph = new Map();
+  const link = (from: string, to: string, rate: number) => {
+    if (!graph.has(from)) graph.set(from, new Map());
+    graph.get(from)!.set(to, rate);
+  };
+  rates.filter(r => r.rate > 0).forEach(r => {
+    link(r.from, r.to, r.rate);
+    if (!graph.get(r.to)?.has(r.from)) link(r.to, r.from, 1 / r.rate);
+  });
+  return graph;
+};
+
+/**
+ * The rate from one currency to another: entered directly, the inverse of
+ * one entered the other way round, or through a currency both have a rate
+ * for, as rate files usually give everything against one base.
+ */
+export const findRate = (rates: ExchangeRate[], from: string, to: string): number | null => {
+  if (from === to) return 1;
+  const graph = rateGraph(rates);
+  const direct = graph.get(from)?.get(to);
+  if (direct !== undefined) return direct;
+  for (const [via, rate] of graph.get(from) ?? []) {
+    const onward = graph.get(via)?.get(to);
+    if (onward !== undefined) return rate * onward;
+  }
+  return null;
+};
+
+/** Adds a rate, replacing any for the same pair in either direction. */
+export const setRate = (rates: ExchangeRate[], rate: ExchangeRate): ExchangeRate[] => [
+  ...rates.filter(r => !((r.from === rate.from && r.to === rate.to) || (r.from === rate.to && r.to === rate.from))),
+  rate,
+];
+
+/** `amount` in `from`, converted and rounded to the minor unit of `to`. */
+export const convertAmount = (amount: number, from: string, to: string, rates: ExchangeRate[]): number | null => {
+  const rate = findRate(rates, from, to);
+  if (rate === null) return null;
+  const digits = currencyDigits(to);
+  return fromMinor(Math.round(toMinor(amount, currencyDigits(from)) * rate * 10 ** (digits - currencyDigits(from))), digits);
+};
+
+/** Currencies among `currencies` that cannot yet be converted into `to`. */
+export const missingRates = (currencies: string[], to: string, rates: ExchangeRate[]): string[] =>
+  Array.from(new Set(currencies)).filter(currency => findRate(rates, currency, to) === null);
+
+/**
+ * Converts everyone's share of one receipt. The receipt total is converted
+ * once and allocated in proportion to the shares, with whatever is still
+ * unassigned as one more bucket, so a fully assigned receipt converts to
+ * exactly its converted total. Returns null without a rate.
+ */
+export const convertShares = (
+  shares: { person_name: string; total: number }[],
+  receiptTotal: number,
+  from: string,
+  to: string,
+  rates: ExchangeRate[]
+): Record<string, number> | null => {
+  const rate = findRate(rates, from, to);
+  if (rate === null) return null;
+  const fromDigits = currencyDigits(from);
+  const toDigits = currencyDigits(to);
+  const shareMinor = shares.map(share => toMinor(share.total, fromDigits));
+  const unassignedMinor = Math.max(toMinor(receiptTotal, fromDigits) - shareMinor.reduce((acc, m) => acc + m, 0), 0);
+  const convertedMinor = Math.round(toMinor(receiptTotal, fromDigits) * rate * 10 ** (toDigits - fromDigits));
+  const parts = allocateMinor(convertedMinor, [...shareMinor, unassignedMinor]);
+  return Object.fromEntries(shares.map((share, index) => [share.person_name, fromMinor(parts[index], toDigits)]));
+};
+
+/**
+ * Payments at their value in the settle-up currency. Those in a currency
+ * with no rate yet are left out until one is entered.
+ */
+export const paymentsIn = (payments: Payment[], currency: string, rates: ExchangeRate[]): Payment[] =>
+  payments.flatMap(payment => {
+    const amount = convertAmount(payment.amount, payment.currency ?? currency, currency, rates);
+    return amount === null ? [] : [{ ...payment, amount, currency }];
+  });
+
+/** The currency a person sees their share in. */
+export const personCurrency = (fx: FxSettings, homeCurrency: string, name: string): string =>
+  fx.person_currencies[name] ?? homeCurrency;
+
+/** Moves a person's currency and card fee to a new name, unless that person already has their own. */
+export const renamePersonFx = (fx: FxSettings, from: string, to: string): FxSettings => {
+  const rename = <T>(byName: Record<string, T>): Record<string, T> => {
+    const { [from]: moved, ...others } = byName;
+    return moved === undefined || to in others ? others : { ...others, [to]: moved };
+  };
+  return { ...fx, person_currencies: rename(fx.person_currencies), card_fees: rename(fx.card_fees) };
+};
+
+/** What the person's card charges on top of a converted amount. */
+export const cardFee = (fx: FxSettings, name: string, amount: number, currency: string): number => {
+  const percent = fx.card_fees[name] ?? 0;
+  const digits = currencyDigits(currency);
+  return fromMinor(Math.round((toMinor(amount, digits) * percent) / 100), digits);
+};
+
+export interface ConvertedShare {
+  amount: number;
+  currency: string;
+  /** The card's foreign transaction fee on top of `amount`. */
+  fee: number;
+}
+
+/**
+ * Each person's share of one receipt in their own currency, or nothing for
+ * people who pay in the receipt's currency or have no rate yet. People in
+ * the tab's currency take the unassigned remainder along with them, so their
+ * shares reconcile with the converted receipt total.
+ */
+export const convertForPeople = (
+  shares: { person_name: string; total: number }[],
+  receiptTotal: number,
+  from: string,
+  fx: FxSettings,
+  homeCurrency: string
+): Record<string, ConvertedShare> => {
+  const groups = new Map<string, { person_name: string; total: number }[]>();
+  shares.forEach(share => {
+    const currency = personCurrency(fx, homeCurrency, share.person_name);
+    groups.set(currency, [...(groups.get(currency) ?? []), share]);
+  });
+
+  const fromDigits = currencyDigits(from);
+  const groupMinor = (group: { total: number }[]) => group.reduce((acc, share) => acc + toMinor(share.total, fromDigits), 0);
+  const elsewhereMinor = Array.from(groups.entries())
+    .filter(([currency]) => currency !== homeCurrency)
+    .reduce((acc, [, group]) => acc + groupMinor(group), 0);
+
+  const result: Record<string, ConvertedShare> = {};
+  groups.forEach((group, currency) => {
+    if (currency === from) return;
+    const groupTotal = currency === homeCurrency
+      ? fromMinor(toMinor(receiptTotal, fromDigits) - elsewhereMinor, fromDigits)
+      : fromMinor(groupMinor(group), fromDigits);
+    const converted = convertShares(group, groupTotal, from, currency, fx.rates);
+    if (!converted) return;
+    group.forEach(({ person_name }) => {
+      const amount = converted[person_name];
+      result[person_name] = { amount, currency, fee: cardFee(fx, person_name, amount, currency) };
+    });
+  });
+  return result;
+};
+
+const parseRateValue = (value: unknown, where: string): number => {
+  const rate = Number(value);
+  if (!Number.isFinite(rate) || rate <= 0) {
+    throw new Error(`${where}: "${value}" is not a positive exchange rate.`);
+  }
+  return rate;
+};
+
+const parseCode = (value: unknown, where: string): string => {
+  const code = String(value ?? '').trim().toUpperCase();
+  if (!isCurrencyCode(code)) {
+    throw new Error(`${where}: "${value}" is not a currency code.`);
+  }
+  return code;
+};
+
+/**
+ * Reads a rates file saved on the device. Accepts JSON with a base and a
+ * map of rates, as most rate services publish them
+ * (`{ "base": "EUR", "rates": { "ZAR": 20.1 } }`), a JSON list of
+ * `{ from, to, rate }`, or CSV lines of `from,to,rate`.
+ */
+export const parseRatesFile = (text: string): ExchangeRate[] => {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error('The rates file is empty.');
+
+  let rates: ExchangeRate[];
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let data: any;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      throw new Error('The rates file is not valid JSON.');
+    }
+    if (Array.isArray(data)) {
+      rates = data.map((entry, index) => ({
+        from: parseCode(entry?.from, `Entry ${index + 1}`),
+        to: parseCode(entry?.to, `Entry ${index + 1}`),
+        rate: parseRateValue(entry?.rate, `Entry ${index + 1}`),
+        source: 'file',
+      }));
+    } else if (data && typeof data.rates === 'object' && data.rates !== null) {
+      const base = parseCode(data.base, 'Base currency');
+      rates = Object.entries(data.rates)
+        .filter(([code]) => code.toUpperCase() !== base)
+        .map(([code, rate]) => ({ from: base, to: parseCode(code, base), rate: parseRateValue(rate, code), source: 'file' }));
+    } else {
+      throw new Error('The rates file needs a "base" and "rates", or a list of { from, to, rate }.');
+    }
+  } else {
+    rates = trimmed.split(/\r?\n/)
+      .map((line, index) => ({ line: index + 1, cells: line.split(/[,;\t]/).map(cell => cell.trim()) }))
+      .filter(({ line, cells }) => cells.some(Boolean) && !(line === 1 && /^from$/i.test(cells[0])))
+      .map(({ line, cells }) => {
+        if (cells.length < 3) throw new Error(`Line ${line}: expected from, to and rate.`);
+        return {
+          from: parseCode(cells[0], `Line ${line}`),
+          to: parseCode(cells[1], `Line ${line}`),
+          rate: parseRateValue(cells[2], `Line ${line}`),
+          source: 'file' as const,
+        };
+      });
+  }
+
+  if (rates.length === 0) throw new Error('The rates file has no rates in it.');
+  return rates;
+};
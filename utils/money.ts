@@ -0,0 +1,40 @@
+// All split arithmetic happens in integer minor units (cents) so that the
+// per-person amounts always add back up to the receipt exactly. A currency
+// with a different minor unit passes its decimal places: 0 for yen, so
+// nobody is ever given a fraction of one.
+
+const DEFAULT_DIGITS = 2;
+
+export const toMinor = (amount: number, digits = DEFAULT_DIGITS): number => Math.round(amount * 10 ** digits);
+
+export const fromMinor = (minor: number, digits = DEFAULT_DIGITS): number => minor / 10 ** digits;
+
+/**
+ * Splits `totalMinor` into integer parts proportional to `weights` using the
+ * largest remainder method. Leftover units go to the largest fractional
+ * remainders first; ties are broken by position, so the result is stable.
+ */
+export const allocateMinor = (totalMinor: number, weights: number[]): number[] => {
+  const weightSum = weights.reduce((acc, w) => acc + Math.max(w, 0), 0);
+  if (weightSum <= 0 || totalMinor === 0) {
+    return weights.map(() => 0);
+  }
+
+  const sign = totalMinor < 0 ? -1 : 1;
+  const absTotal = Math.abs(totalMinor);
+  const exact = weights.map(w => (absTotal * Math.max(w, 0)) / weightSum);
+  const parts = exact.map(Math.floor);
+  let leftover = absTotal - parts.reduce((acc, p) => acc + p, 0);
+
+  const order = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .filter(({ index }) => weights[index] > 0)
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (let i = 0; leftover > 0; i = (i + 1) % order.length) {
+    parts[order[i].index] += 1;
+    leftover -= 1;
+  }
+
+  return parts.map(p => p * sign);
+};
@@ -0,0 +1,151 @@
+import { ReceiptData, ReceiptItem, ReceiptAdjustment, ItemAssignment } from '../types';
+import { toMinor, fromMinor } from './money';
+import { computeBillSplit, getItemShares, shareKind } from './splitEngine';
+import { receiptDigits } from './currency';
+
+// Ids are short and readable on purpose: they are shown to the AI in
+// prompts and must survive being echoed back verbatim.
+const ITEM_ID_PREFIX = 'line-';
+const ADJUSTMENT_ID_PREFIX = 'adj-';
+
+const nextId = (prefix: string, ids: string[]): string => {
+  const highest = ids.reduce((max, id) => {
+    const n = Number(id.slice(prefix.length));
+    return id.startsWith(prefix) && Number.isFinite(n) ? Math.max(max, n) : max;
+  }, 0);
+  return `${prefix}${highest + 1}`;
+};
+
+/** Line ids follow the receipt's order, so "line-3" is the third line. */
+export const itemIdForLine = (lineNumber: number): string => `${ITEM_ID_PREFIX}${lineNumber}`;
+
+export const assignItemIds = (items: Omit<ReceiptItem, 'id'>[]): ReceiptItem[] =>
+  items.map((item, index) => ({ ...item, id: itemIdForLine(index + 1) }));
+
+export const nextItemId = (items: ReceiptItem[]): string =>
+  nextId(ITEM_ID_PREFIX, items.map(item => item.id));
+
+export const assignAdjustmentIds = (adjustments: Omit<ReceiptAdjustment, 'id'>[]): ReceiptAdjustment[] =>
+  adjustments.map((adjustment, index) => ({ ...adjustment, id: `${ADJUSTMENT_ID_PREFIX}${index + 1}` }));
+
+export const nextAdjustmentId = (adjustments: ReceiptAdjustment[]): string =>
+  nextId(ADJUSTMENT_ID_PREFIX, adjustments.map(adjustment => adjustment.id));
+
+// Hand edits. A line the user has typed or corrected is treated as certain,
+// so its confidence goes to 1.
+
+export const updateItem = (items: ReceiptItem[], itemId: string, changes: Partial<Omit<ReceiptItem, 'id'>>): ReceiptItem[] =>
+  items.map(item => (item.id === itemId ? { ...item, ...changes, confidence_score: 1 } : item));
+
+export const addItem = (items: ReceiptItem[]): ReceiptItem[] => [
+  ...items,
+  { id: nextItemId(items), item_name: '', quantity: 1, price: 0, confidence_score: 1 },
+];
+
+export const deleteItem = (items: ReceiptItem[], itemId: string): ReceiptItem[] =>
+  items.filter(item => item.id !== itemId);
+
+/**
+ * Splits one unit off a multi-quantity line into a line of its own, rounded
+ * to the currency's minor unit (`digits` decimal places).
+ */
+export const splitItem = (items: ReceiptItem[], itemId: string, digits?: number): ReceiptItem[] => {
+  const index = items.findIndex(item => item.id === itemId);
+  const item = items[index];
+  if (!item || item.quantity <= 1) return items;
+
+  const unitMinor = Math.round(toMinor(item.price, digits) / item.quantity);
+  const remaining = { ...item, quantity: item.quantity - 1, price: fromMinor(toMinor(item.price, digits) - unitMinor, digits) };
+  const single = { ...item, id: nextItemId(items), quantity: 1, price: fromMinor(unitMinor, digits) };
+  return [...items.slice(0, index), remaining, single, ...items.slice(index + 1)];
+};
+
+/** Merges several lines into the first of them, which keeps its id. */
+export const mergeItems = (items: ReceiptItem[], itemIds: string[], digits?: number): ReceiptItem[] => {
+  const merging = items.filter(item => itemIds.includes(item.id));
+  if (merging.length < 2) return items;
+
+  const [first, ...rest] = merging;
+  const merged: ReceiptItem = {
+    ...first,
+    quantity: merging.reduce((acc, item) => acc + item.quantity, 0),
+    price: fromMinor(merging.reduce((acc, item) => acc + toMinor(item.price, digits), 0), digits),
+    confidence_score: Math.min(...merging.map(item => item.confidence_score)),
+    notes: merging.map(item => item.notes).filter(Boolean).join('; ') || undefined,
+  };
+  return items
+    .filter(item => !rest.some(r => r.id === item.id))
+    .map(item => (item.id === first.id ? merged : item));
+};
+
+/** Merged-away line id → the id of the line it was merged into. */
+export type MergedLines = Record<string, string>;
+
+/** Notes a merge, re-pointing earlier merges into lines that are now merged away too. */
+export const recordMerge = (merged: MergedLines, items: ReceiptItem[], itemIds: string[]): MergedLines => {
+  const merging = items.filter(item => itemIds.includes(item.id));
+  if (merging.length < 2) return merged;
+
+  const [first, ...rest] = merging;
+  const into = (id: string) => (rest.some(item => item.id === id) ? first.id : id);
+  const updated: MergedLines = Object.fromEntries(Object.entries(merged).map(([from, to]) => [from, into(to)]));
+  rest.forEach(item => {
+    updated[item.id] = first.id;
+  });
+  return updated;
+};
+
+/**
+ * Carries the assignments over a hand edit of the receipt. A merged line
+ * takes over the shares of the lines merged into it: unchanged when they
+ * were all held the same way, otherwise as fixed amounts so everyone keeps
+ * what they had. Lines that were deleted lose their assignments.
+ */
+export const carryAssignments = (
+  before: ReceiptData,
+  assignments: ItemAssignment[],
+  items: ReceiptItem[],
+  merged: MergedLines
+): ItemAssignment[] => {
+  const digits = receiptDigits(before);
+  return items.flatMap(item => {
+    const sources = before.items.filter(old => (merged[old.id] ?? old.id) === item.id).map(old => old.id);
+    const sourceShares = sources.map(id => getItemShares(assignments, id));
+    if (sourceShares.every(shares => shares.length === 0)) return [];
+
+    const sameHolders = sourceShares.every(shares => JSON.stringify(shares) === JSON.stringify(sourceShares[0]));
+    if (sources.length === 1 || (sameHolders && sourceShares[0].every(share => shareKind(share) !== 'units'))) {
+      return [{ item_id: item.id, shares: sourceShares[0] }];
+    }
+    const billSplit = computeBillSplit(before, sources.map((id, index) => ({ item_id: id, shares: sourceShares[index] })));
+    return [{
+      item_id: item.id,
+      shares: billSplit.map(person => ({
+        person_name: person.person_name,
+        weight: 0,
+        amount: fromMinor(person.items.reduce((acc, part) => acc + toMinor(part.price, digits), 0), digits),
+      })),
+    }];
+  });
+};
+
+/** Lines whose shares by units add up to more units than the line now has, e.g. after a unit was split off. */
+export const linesOverUnits = (items: ReceiptItem[], assignments: ItemAssignment[]): ReceiptItem[] =>
+  items.filter(item =>
+    getItemShares(assignments, item.id).reduce((acc, share) => acc + (shareKind(share) === 'units' ? share.units! : 0), 0) > item.quantity
+  );
+
+/**
+ * Points the adjustments' lines at the lines they were merged into and drops
+ * references to lines that no longer exist.
+ */
+export const pruneAdjustments = (adjustments: ReceiptAdjustment[], items: ReceiptItem[], merged: MergedLines = {}): ReceiptAdjustment[] =>
+  adjustments.map(adjustment =>
+    adjustment.item_ids
+      ? {
+        ...adjustment,
+        item_ids: Array.from(new Set(adjustment.item_ids.map(id => merged[id] ?? id)))
+          .filter(id => items.some(item => item.id === id)),
+      }
+      : adjustment
+  );
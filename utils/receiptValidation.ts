@@ -0,0 +1,127 @@
+import { ReceiptData } from '../types';
+import { getEffectiveCharges, DEFAULT_TAB_POLICY } from './splitEngine';
+import { toMinor, fromMinor } from './money';
+import { currencyFormatOf, formatCurrency, receiptDigits } from './currency';
+import { updateItem } from './receipt';
+
+// Checks the receipt the AI (or the user) produced before anyone splits it.
+// Blocking issues make the split itself wrong; warnings only deserve a look.
+
+export type ValidationSeverity = 'blocking' | 'warning';
+
+export interface ValidationFix {
+  label: string;
+  apply: (receiptData: ReceiptData) => ReceiptData;
+}
+
+export interface ValidationIssue {
+  /** Stable key, e.g. "negative-price:line-3". */
+  id: string;
+  severity: ValidationSeverity;
+  message: string;
+  item_id?: string;
+  fix?: ValidationFix;
+}
+
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+/** What the printed parts of the receipt add up to, before any tab policy. */
+export const getExpectedTotal = (receiptData: ReceiptData): number => {
+  const charges = getEffectiveCharges(receiptData, DEFAULT_TAB_POLICY);
+  const digits = receiptDigits(receiptData);
+  return fromMinor(
+    toMinor(receiptData.subtotal, digits) - toMinor(charges.discounts, digits) + toMinor(charges.tax, digits)
+    + toMinor(charges.service_charge, digits) + toMinor(charges.cover_charge, digits) + toMinor(charges.tip, digits),
+    digits
+  );
+};
+
+// Yen and other zero-decimal currencies have no cents to split.
+const roundAmounts = (receiptData: ReceiptData, digits: number): ReceiptData => {
+  const round = (amount: number) => fromMinor(toMinor(amount, digits), digits);
+  return {
+    ...receiptData,
+    items: receiptData.items.map(item => ({ ...item, price: round(item.price) })),
+    adjustments: receiptData.adjustments?.map(adjustment => (
+      adjustment.amount === undefined ? adjustment : { ...adjustment, amount: round(adjustment.amount) }
+    )),
+    subtotal: round(receiptData.subtotal),
+    tax: round(receiptData.tax),
+    service_charge: receiptData.service_charge === undefined ? undefined : round(receiptData.service_charge),
+    cover_charge: receiptData.cover_charge === undefined ? undefined : round(receiptData.cover_charge),
+    tip: round(receiptData.tip),
+    total: round(receiptData.total),
+  };
+};
+
+export const validateReceipt = (receiptData: ReceiptData): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const digits = receiptDigits(receiptData);
+  const currency = currencyFormatOf(receiptData);
+  const formatAmount = (amount: number) => formatCurrency(amount, currency);
+
+  receiptData.items.forEach(item => {
+    const label = item.item_name || item.id;
+    if (item.price < 0) {
+      issues.push({
+        id: `negative-price:${item.id}`,
+        severity: 'blocking',
+        message: `${label} has a negative price (${formatAmount(item.price)}).`,
+        item_id: item.id,
+        fix: { label: 'Make positive', apply: r => ({ ...r, items: updateItem(r.items, item.id, { price: Math.abs(item.price) }) }) },
+      });
+    }
+    if (item.quantity < 0) {
+      issues.push({
+        id: `negative-quantity:${item.id}`,
+        severity: 'blocking',
+        message: `${label} has a negative quantity (${item.quantity}).`,
+        item_id: item.id,
+        fix: { label: 'Make positive', apply: r => ({ ...r, items: updateItem(r.items, item.id, { quantity: Math.abs(item.quantity) }) }) },
+      });
+    }
+    if (item.confidence_score < LOW_CONFIDENCE_THRESHOLD) {
+      issues.push({
+        id: `low-confidence:${item.id}`,
+        severity: 'warning',
+        message: `${label} was hard to read (${Math.round(item.confidence_score * 100)}% confidence). Check it against the receipt.`,
+        item_id: item.id,
+        fix: { label: 'Looks right', apply: r => ({ ...r, items: updateItem(r.items, item.id, { confidence_score: 1 }) }) },
+      });
+    }
+  });
+
+  if (JSON.stringify(roundAmounts(receiptData, digits)) !== JSON.stringify(receiptData)) {
+    issues.push({
+      id: 'currency-precision',
+      severity: 'warning',
+      message: `Some amounts have more decimals than ${currency.currency} uses, so they will be rounded when the tab is split.`,
+      fix: { label: 'Round them now', apply: r => roundAmounts(r, digits) },
+    });
+  }
+
+  const itemsMinor = receiptData.items.reduce((acc, item) => acc + toMinor(item.price, digits), 0);
+  if (itemsMinor !== toMinor(receiptData.subtotal, digits)) {
+    issues.push({
+      id: 'subtotal-mismatch',
+      severity: 'blocking',
+      message: `The lines add up to ${formatAmount(fromMinor(itemsMinor, digits))} but the subtotal is ${formatAmount(receiptData.subtotal)}.`,
+      fix: { label: 'Use line total', apply: r => ({ ...r, subtotal: fromMinor(itemsMinor, digits) }) },
+    });
+  }
+
+  const expectedTotalMinor = toMinor(getExpectedTotal(receiptData), digits);
+  if (expectedTotalMinor !== toMinor(receiptData.total, digits)) {
+    issues.push({
+      id: 'total-mismatch',
+      severity: 'blocking',
+      message: `Subtotal, discounts, tax, charges and tip come to ${formatAmount(fromMinor(expectedTotalMinor, digits))} but the total is ${formatAmount(receiptData.total)}.`,
+      fix: { label: 'Use calculated total', apply: r => ({ ...r, total: fromMinor(expectedTotalMinor, digits) }) },
+    });
+  }
+
+  return issues;
+};
+
+export const hasBlockingIssues = (issues: ValidationIssue[]): boolean =>
+  issues.some(issue => issue.severity === 'blocking');
@@ -0,0 +1,129 @@
+import { ReceiptData, ItemAssignment, ItemShare, Roster, TabGroup, BillSplit, TabPolicy } from '../types';
+import { equalShares, getItemShares, setItemAssignment, shareKind } from './splitEngine';
+import { toMinor, fromMinor } from './money';
+
+// The roster lists everyone on the tab, whether or not they have anything
+// assigned, and the groups that pay as one. The bulk operations below work
+// on whole tabs rather than single lines and are shared by chat and the
+// receipt panel.
+
+export const EMPTY_ROSTER: Roster = { people: [], groups: [] };
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/** Roster people first, then anyone who only appears in the assignments. */
+export const rosterNames = (roster: Roster, assignments: ItemAssignment[]): string[] => {
+  const names = [...roster.people];
+  assignments.forEach(assignment => {
+    assignment.shares.forEach(share => {
+      if (!names.some(name => sameName(name, share.person_name))) {
+        names.push(share.person_name);
+      }
+    });
+  });
+  return names;
+};
+
+export const addPerson = (roster: Roster, name: string): Roster => {
+  const trimmed = name.trim();
+  if (!trimmed || roster.people.some(person => sameName(person, trimmed))) return roster;
+  return { ...roster, people: [...roster.people, trimmed] };
+};
+
+export const removePerson = (roster: Roster, name: string): Roster => ({
+  people: roster.people.filter(person => !sameName(person, name)),
+  groups: roster.groups
+    .map(group => ({ ...group, members: group.members.filter(member => !sameName(member, name)) }))
+    .filter(group => group.members.length > 0),
+});
+
+/** Renames a person everywhere on the roster; renaming onto someone already there merges them. */
+export const renamePerson = (roster: Roster, from: string, to: string): Roster => {
+  const rename = (names: string[]) => names
+    .map(name => (name === from ? to : name))
+    .filter((name, index, renamed) => renamed.indexOf(name) === index);
+  return {
+    people: rename(roster.people),
+    groups: roster.groups.map(group => ({ ...group, members: rename(group.members) })),
+  };
+};
+
+/** Moves a tip exemption to the new name; merging into someone who pays tip keeps them paying it. */
+export const renameTipExempt = (policy: TabPolicy, from: string, to: string): TabPolicy =>
+  policy.tip_exempt.includes(from)
+    ? { ...policy, tip_exempt: Array.from(new Set(policy.tip_exempt.map(name => (name === from ? to : name)))) }
+    : policy;
+
+export const removeTipExempt = (policy: TabPolicy, name: string): TabPolicy =>
+  policy.tip_exempt.includes(name) ? { ...policy, tip_exempt: policy.tip_exempt.filter(exempt => exempt !== name) } : policy;
+
+/** Adds a group or replaces the one with the same name. Members join the roster too. */
+export const setGroup = (roster: Roster, group: TabGroup): Roster => {
+  const withMembers = group.members.reduce(addPerson, roster);
+  const others = withMembers.groups.filter(existing => !sameName(existing.name, group.name));
+  return { ...withMembers, groups: [...others, group] };
+};
+
+export const removeGroup = (roster: Roster, name: string): Roster => ({
+  ...roster,
+  groups: roster.groups.filter(group => group.name !== name),
+});
+
+export const findGroup = (roster: Roster, name: string): TabGroup | undefined =>
+  roster.groups.find(group => sameName(group.name, name));
+
+/** The group a person pays with, if any. */
+export const groupOf = (roster: Roster, name: string): TabGroup | undefined =>
+  roster.groups.find(group => group.members.includes(name));
+
+export interface GroupTotal {
+  group: TabGroup;
+  total: number;
+}
+
+/** Combined totals for each group, for showing who pays together. */
+export const groupTotals = (roster: Roster, billSplit: BillSplit, digits?: number): GroupTotal[] =>
+  roster.groups.map(group => ({
+    group,
+    total: fromMinor(billSplit
+      .filter(split => group.members.includes(split.person_name))
+      .reduce((acc, split) => acc + toMinor(split.total, digits), 0), digits),
+  }));
+
+const unassignedItemIds = (receipt: ReceiptData, assignments: ItemAssignment[]) =>
+  receipt.items.filter(item => getItemShares(assignments, item.id).length === 0).map(item => item.id);
+
+/** Splits every line nobody has yet equally among `people`. */
+export const assignRemaining = (receipt: ReceiptData, assignments: ItemAssignment[], people: string[]): ItemAssignment[] =>
+  unassignedItemIds(receipt, assignments)
+    .reduce((acc, itemId) => setItemAssignment(acc, itemId, equalShares(people)), assignments);
+
+/** Replaces every assignment with an equal split of every line among `people`. */
+export const splitEverything = (receipt: ReceiptData, people: string[]): ItemAssignment[] =>
+  receipt.items.map(item => ({ item_id: item.id, shares: equalShares(people) }));
+
+// Shares of the same kind for the same person are added together, so
+// moving Alice's half of the nachos to Bob gives Bob the whole dish.
+const mergeShares = (shares: ItemShare[]): ItemShare[] =>
+  shares.reduce<ItemShare[]>((merged, share) => {
+    const existing = merged.find(s => s.person_name === share.person_name && shareKind(s) === shareKind(share));
+    if (!existing) return [...merged, { ...share }];
+    const kind = shareKind(share);
+    if (kind === 'weight') existing.weight += share.weight;
+    else existing[kind] = (existing[kind] ?? 0) + (share[kind] ?? 0);
+    return merged;
+  }, []);
+
+/** Moves everything `from` had to `to`, across every line. */
+export const moveItems = (assignments: ItemAssignment[], from: string, to: string): ItemAssignment[] =>
+  assignments.map(assignment => ({
+    ...assignment,
+    shares: mergeShares(assignment.shares.map(share => (share.person_name === from ? { ...share, person_name: to } : share))),
+  }));
+
+/** Takes a person off every line; lines left with nobody become unassigned. */
+export const removeFromAssignments = (assignments: ItemAssignment[], name: string): ItemAssignment[] =>
+  assignments.reduce(
+    (acc, assignment) => setItemAssignment(acc, assignment.item_id, assignment.shares.filter(share => share.person_name !== name)),
+    assignments
+  );
@@ -0,0 +1,121 @@
+import { Payment, PersonSplit, Roster, Settlement, Transfer } from '../types';
+import { toMinor, fromMinor } from './money';
+import { groupOf } from './roster';
+
+// Works out who pays whom back once the bill is paid. A group settles as
+// one party, under the group's name, so a couple never pays each other.
+
+export const EMPTY_SETTLEMENT: Settlement = { payments: [], paid_transfers: [] };
+
+const PAYMENT_ID_PREFIX = 'pay-';
+
+export interface Balance {
+  party: string;
+  owed: number;
+  paid: number;
+  /** Positive when the party is owed money, negative when they owe it. */
+  balance: number;
+}
+
+export const nextPaymentId = (payments: Payment[]): string => {
+  const highest = payments.reduce((max, payment) => {
+    const n = Number(payment.id.slice(PAYMENT_ID_PREFIX.length));
+    return Number.isFinite(n) ? Math.max(max, n) : max;
+  }, 0);
+  return `${PAYMENT_ID_PREFIX}${highest + 1}`;
+};
+
+/** The name someone settles under: their group's, if they pay as one. */
+export const partyOf = (roster: Roster, name: string): string => groupOf(roster, name)?.name ?? name;
+
+/** `totals` is a receipt's bill split or, for an event, the combined ledger. */
+export const computeBalances = (
+  totals: Pick<PersonSplit, 'person_name' | 'total'>[],
+  payments: Payment[],
+  roster: Roster,
+  digits?: number
+): Balance[] => {
+  const parties = new Map<string, { owedMinor: number; paidMinor: number }>();
+  const partyFor = (name: string) => {
+    const party = partyOf(roster, name);
+    if (!parties.has(party)) parties.set(party, { owedMinor: 0, paidMinor: 0 });
+    return parties.get(party)!;
+  };
+  totals.forEach(split => {
+    partyFor(split.person_name).owedMinor += toMinor(split.total, digits);
+  });
+  payments.forEach(payment => {
+    partyFor(payment.person_name).paidMinor += toMinor(payment.amount, digits);
+  });
+
+  return Array.from(parties.entries()).map(([party, { owedMinor, paidMinor }]) => ({
+    party,
+    owed: fromMinor(owedMinor, digits),
+    paid: fromMinor(paidMinor, digits),
+    balance: fromMinor(paidMinor - owedMinor, digits),
+  }));
+};
+
+/**
+ * Pairs the biggest debtor with the biggest creditor until one side runs
+ * out. This needs at most one transfer fewer than there are parties. When
+ * the payments don't add up to what is owed, the difference is left over
+ * rather than invented.
+ */
+export const computeTransfers = (balances: Balance[], digits?: number): Transfer[] => {
+  const byAmount = (a: { party: string; minor: number }, b: { party: string; minor: number }) =>
+    b.minor - a.minor || a.party.localeCompare(b.party);
+  const debtors = balances
+    .filter(b => b.balance < 0)
+    .map(b => ({ party: b.party, minor: -toMinor(b.balance, digits) }))
+    .sort(byAmount);
+  const creditors = balances
+    .filter(b => b.balance > 0)
+    .map(b => ({ party: b.party, minor: toMinor(b.balance, digits) }))
+    .sort(byAmount);
+
+  const transfers: Transfer[] = [];
+  let d = 0;
+  let c = 0;
+  while (d < debtors.length && c < creditors.length) {
+    const minor = Math.min(debtors[d].minor, creditors[c].minor);
+    if (minor > 0) {
+      transfers.push({ from: debtors[d].party, to: creditors[c].party, amount: fromMinor(minor, digits) });
+    }
+    debtors[d].minor -= minor;
+    creditors[c].minor -= minor;
+    if (debtors[d].minor === 0) d++;
+    if (creditors[c].minor === 0) c++;
+  }
+  return transfers;
+};
+
+// Paid flags are kept as transfer keys, so a renamed party is renamed inside them.
+const parseTransferKey = (key: string): { from: string; to: string; amount: string } | null => {
+  const match = key.match(/^(.*)→(.*):(-?\d+)$/);
+  return match ? { from: match[1], to: match[2], amount: match[3] } : null;
+};
+
+/** Payments and paid flags follow a renamed person; renaming onto someone else merges them. */
+export const renamePayer = (settlement: Settlement, from: string, to: string): Settlement => ({
+  payments: settlement.payments.map(payment => (payment.person_name === from ? { ...payment, person_name: to } : payment)),
+  paid_transfers: settlement.paid_transfers.map(key => {
+    const parsed = parseTransferKey(key);
+    if (!parsed) return key;
+    const rename = (party: string) => (party === from ? to : party);
+    return `${rename(parsed.from)}→${rename(parsed.to)}:${parsed.amount}`;
+  }),
+});
+
+/** Someone taken off the tab takes their payments and paid flags with them. */
+export const removePayer = (settlement: Settlement, name: string): Settlement => ({
+  payments: settlement.payments.filter(payment => payment.person_name !== name),
+  paid_transfers: settlement.paid_transfers.filter(key => {
+    const parsed = parseTransferKey(key);
+    return !parsed || (parsed.from !== name && parsed.to !== name);
+  }),
+});
+
+/** Identifies a transfer for its paid flag; a changed amount is a new transfer. */
+export const transferKey = (transfer: Transfer, digits?: number): string =>
+  `${transfer.from}→${transfer.to}:${toMinor(transfer.amount, digits)}`;
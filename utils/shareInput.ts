@@ -0,0 +1,72 @@
+import { ItemShare } from '../types';
+import { shareKind } from './splitEngine';
+import { CurrencyFormat, currencySymbol } from './currency';
+
+// The inline assignment editor takes a comma-separated list of people, each
+// optionally followed by how much of the line they had:
+//   "Alice, Bob"           shared equally
+//   "Alice *2, Bob"        weighted 2:1
+//   "Alice 40%, Bob 60%"   percentages of the line
+//   "Alice =50, Bob, Carl" Alice covers 50, Bob and Carl split the rest;
+//                          the receipt's currency symbol works too, "Alice R50"
+//   "Alice x3, Bob x1"     units of a multi-quantity line
+// A person may be listed twice, e.g. "Alice =50, Alice, Bob".
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Some locales print a symbol people don't type, e.g. a full-width yen sign,
+// so the English one is accepted as well.
+const sharePattern = (format: CurrencyFormat) => {
+  const symbols = new Set([currencySymbol(format), currencySymbol({ ...format, locale: 'en' })]);
+  const markers = ['\\*', 'x', '×', '=', ...[...symbols].map(escapeRegExp)].join('|');
+  return new RegExp(`^(.*?)\\s+(${markers})?\\s*(\\d+(?:\\.\\d+)?)\\s*(%)?$`, 'i');
+};
+
+const parseShareEntry = (entry: string, pattern: RegExp): ItemShare => {
+  const match = entry.match(pattern);
+  if (!match || !match[1] || (!match[2] && !match[4])) {
+    return { person_name: entry, weight: 1 };
+  }
+
+  const [, person_name, marker = '', rawValue, percentSign] = match;
+  const value = Number(rawValue);
+  if (percentSign) {
+    return { person_name, weight: 1, percent: value };
+  }
+  switch (marker.toLowerCase()) {
+    case '*':
+      return { person_name, weight: value };
+    case 'x':
+    case '×':
+      return { person_name, weight: 1, units: value };
+    default:
+      return { person_name, weight: 1, amount: value };
+  }
+};
+
+export const parseShareInput = (input: string, format: CurrencyFormat): ItemShare[] => {
+  const pattern = sharePattern(format);
+  return input
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => parseShareEntry(entry, pattern));
+};
+
+export const formatShare = (share: ItemShare): string => {
+  switch (shareKind(share)) {
+    case 'amount':
+      return `${share.person_name} =${share.amount}`;
+    case 'percent':
+      return `${share.person_name} ${share.percent}%`;
+    case 'units':
+      return `${share.person_name} x${share.units}`;
+    default:
+      return share.weight === 1 ? share.person_name : `${share.person_name} *${share.weight}`;
+  }
+};
+
+export const formatShareInput = (shares: ItemShare[]): string => shares.map(formatShare).join(', ');
+
+export const shareInputHint = (format: CurrencyFormat): string =>
+  `Comma-separated names. Add *2 for a weight, 40% for a percentage, =50 or ${currencySymbol(format)}50 for a fixed amount or x3 for units.`;
@@ -0,0 +1,55 @@
+import { SavedTab } from '../types';
+import { buildTabExport, toBase64Url } from './tabExport';
+import { parseTabExport } from './tabImport';
+import { createSplitHistory, currentAssignments } from './splitHistory';
+
+// A share link carries the whole tab in the URL fragment, which browsers
+// never send to a server, so a friend can open the split without any backend.
+// The tab is trimmed to what the split needs, compressed, and checked on the
+// way in exactly like an imported file.
+
+const FRAGMENT_PREFIX = '#tab=';
+
+/** Links much longer than this are cut short by some chat apps. */
+export const LONG_LINK_LENGTH = 8000;
+
+/** The chat and the undo history stay behind; only the current split is shared. */
+const compactTab = (tab: SavedTab): SavedTab => ({
+  ...tab,
+  chat_messages: [],
+  split_history: createSplitHistory(tab.split_history ? currentAssignments(tab.split_history) : tab.assignments),
+  other_receipts: tab.other_receipts?.map(entry => ({
+    ...entry,
+    chat_messages: [],
+    split_history: createSplitHistory(currentAssignments(entry.split_history)),
+  })),
+});
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const compress = async (text: string): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'))).arrayBuffer());
+
+const decompress = async (bytes: Uint8Array): Promise<string> =>
+  new Response(new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'))).text();
+
+export const buildShareLink = async (tab: SavedTab, baseUrl: string): Promise<string> => {
+  const payload = await compress(JSON.stringify(await buildTabExport(compactTab(tab))));
+  return `${baseUrl}${FRAGMENT_PREFIX}${toBase64Url(payload)}`;
+};
+
+export const isShareLink = (hash: string): boolean => hash.startsWith(FRAGMENT_PREFIX);
+
+/** The tab in a share link's fragment; throws with a reason when it is damaged or was edited. */
+export const readShareLink = async (hash: string): Promise<SavedTab> => {
+  let text: string;
+  try {
+    text = await decompress(fromBase64Url(hash.slice(FRAGMENT_PREFIX.length)));
+  } catch {
+    throw new Error('This share link is damaged or incomplete. Ask for the link again.');
+  }
+  return parseTabExport(text);
+};
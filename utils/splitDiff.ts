@@ -0,0 +1,71 @@
+import { BillSplit } from '../types';
+import { toMinor } from './money';
+
+// Compares two computed splits line by line and person by person. Used to
+// show what a chat command or manual edit actually changed.
+
+export interface ItemHolder {
+  person_name: string;
+  amount: number;
+}
+
+export interface ItemSplitChange {
+  item_id: string;
+  item_name: string;
+  before: ItemHolder[];
+  after: ItemHolder[];
+}
+
+export interface PersonTotalChange {
+  person_name: string;
+  before: number;
+  after: number;
+}
+
+export interface SplitDiff {
+  items: ItemSplitChange[];
+  people: PersonTotalChange[];
+}
+
+const holdersByItem = (split: BillSplit): Map<string, { item_name: string; holders: ItemHolder[] }> => {
+  const map = new Map<string, { item_name: string; holders: ItemHolder[] }>();
+  split.forEach(person => {
+    person.items.forEach(item => {
+      const entry = map.get(item.item_id) ?? { item_name: item.item_name, holders: [] };
+      entry.holders.push({ person_name: person.person_name, amount: item.price });
+      map.set(item.item_id, entry);
+    });
+  });
+  return map;
+};
+
+const sameHolders = (a: ItemHolder[], b: ItemHolder[], digits?: number): boolean => {
+  const key = (holders: ItemHolder[]) =>
+    holders.map(h => `${h.person_name}:${toMinor(h.amount, digits)}`).sort().join('|');
+  return key(a) === key(b);
+};
+
+export const diffSplits = (before: BillSplit, after: BillSplit, digits?: number): SplitDiff => {
+  const beforeItems = holdersByItem(before);
+  const afterItems = holdersByItem(after);
+  const itemIds = Array.from(new Set([...beforeItems.keys(), ...afterItems.keys()]));
+
+  const items = itemIds
+    .map(item_id => ({
+      item_id,
+      item_name: (afterItems.get(item_id) ?? beforeItems.get(item_id))!.item_name,
+      before: beforeItems.get(item_id)?.holders ?? [],
+      after: afterItems.get(item_id)?.holders ?? [],
+    }))
+    .filter(change => !sameHolders(change.before, change.after, digits));
+
+  const names = Array.from(new Set([...before, ...after].map(p => p.person_name)));
+  const totalOf = (split: BillSplit, name: string) => split.find(p => p.person_name === name)?.total ?? 0;
+  const people = names
+    .map(person_name => ({ person_name, before: totalOf(before, person_name), after: totalOf(after, person_name) }))
+    .filter(change => toMinor(change.before, digits) !== toMinor(change.after, digits));
+
+  return { items, people };
+};
+
+export const isEmptyDiff = (diff: SplitDiff): boolean => diff.items.length === 0 && diff.people.length === 0;
@@ -0,0 +1,322 @@
+import { ReceiptData, ReceiptItem, ReceiptAdjustment, BillSplit, AssignedItem, ItemAssignment, ItemShare, TabPolicy, ChargeSplitMode } from '../types';
+import { toMinor, fromMinor, allocateMinor } from './money';
+import { receiptDigits } from './currency';
+
+// The split engine is the single source of truth for who owes what. Callers
+// (chat and manual assignment) only describe *who had what* as assignment
+// intents; every PersonSplit field is derived here.
+
+type ShareKind = 'amount' | 'percent' | 'units' | 'weight';
+
+// The AI may send `units: null` and the like, so anything that isn't a
+// number means the field is absent.
+const isSet = (value: number | undefined): value is number => typeof value === 'number';
+
+export const shareKind = (share: ItemShare): ShareKind =>
+  isSet(share.amount) ? 'amount' :
+  isSet(share.percent) ? 'percent' :
+  isSet(share.units) ? 'units' :
+  'weight';
+
+const shareValue = (share: ItemShare): number => {
+  switch (shareKind(share)) {
+    case 'amount': return share.amount!;
+    case 'percent': return share.percent!;
+    case 'units': return share.units!;
+    default: return share.weight;
+  }
+};
+
+const validShares = (shares: ItemShare[]): ItemShare[] =>
+  shares.filter(share => share.person_name.trim() !== '' && shareValue(share) > 0);
+
+/**
+ * Splits one line's price between its shares. Fixed amounts are taken first,
+ * then percentages of the price, then units at the line's unit price; what
+ * is left is divided by weight, or stays unassigned if nobody shares by
+ * weight. Each stage is capped at what remains, so a line is never
+ * over-allocated.
+ */
+const allocateItem = (priceMinor: number, quantity: number, shares: ItemShare[], digits: number): number[] => {
+  const parts = shares.map(() => 0);
+  let remainingMinor = priceMinor;
+
+  const allocateStage = (kind: ShareKind, demandMinor: (share: ItemShare) => number) => {
+    const indexes = shares.map((_, index) => index).filter(index => shareKind(shares[index]) === kind);
+    if (indexes.length === 0) return;
+    const demands = indexes.map(index => demandMinor(shares[index]));
+    const stageMinor = Math.min(Math.round(demands.reduce((acc, d) => acc + d, 0)), remainingMinor);
+    allocateMinor(stageMinor, demands).forEach((part, i) => {
+      parts[indexes[i]] = part;
+    });
+    remainingMinor -= stageMinor;
+  };
+
+  const unitCount = Math.max(quantity, 1);
+  allocateStage('amount', share => toMinor(share.amount!, digits));
+  allocateStage('percent', share => (priceMinor * share.percent!) / 100);
+  allocateStage('units', share => (priceMinor * share.units!) / unitCount);
+
+  const weighted = shares.map((_, index) => index).filter(index => shareKind(shares[index]) === 'weight');
+  allocateMinor(remainingMinor, weighted.map(index => shares[index].weight)).forEach((part, i) => {
+    parts[weighted[i]] = part;
+  });
+
+  return parts;
+};
+
+interface PersonAccumulator {
+  items: AssignedItem[];
+  subtotalMinor: number;
+  discountMinor: number;
+}
+
+export const DEFAULT_TAB_POLICY: TabPolicy = {
+  tip_split: 'proportional',
+  tip_percent: null,
+  tip_exempt: [],
+  service_split: 'proportional',
+  cover_split: 'equal',
+  block_on_invalid_receipt: false,
+};
+
+const adjustmentAppliesTo = (adjustment: ReceiptAdjustment, item: ReceiptItem): boolean => {
+  switch (adjustment.scope) {
+    case 'category':
+      return !!item.category && item.category.toLowerCase() === (adjustment.category ?? '').toLowerCase();
+    case 'items':
+      return (adjustment.item_ids ?? []).includes(item.id);
+    default:
+      return true;
+  }
+};
+
+/** The amount an adjustment takes off, capped at the lines it covers. */
+export const getAdjustmentAmount = (receiptData: ReceiptData, adjustment: ReceiptAdjustment): number => {
+  const digits = receiptDigits(receiptData);
+  const affectedMinor = receiptData.items
+    .filter(item => adjustmentAppliesTo(adjustment, item))
+    .reduce((acc, item) => acc + toMinor(item.price, digits), 0);
+  const requestedMinor = isSet(adjustment.percent)
+    ? Math.round((affectedMinor * adjustment.percent) / 100)
+    : toMinor(adjustment.amount ?? 0, digits);
+  return fromMinor(Math.min(Math.max(requestedMinor, 0), affectedMinor), digits);
+};
+
+export interface EffectiveCharges {
+  discounts: number;
+  tax: number;
+  service_charge: number;
+  cover_charge: number;
+  tip: number;
+  total: number;
+}
+
+/**
+ * The charges the tab actually splits. A tip percentage set on the tab
+ * replaces the receipt's tip and moves the total by the difference.
+ */
+export const getEffectiveCharges = (receiptData: ReceiptData, policy: TabPolicy): EffectiveCharges => {
+  const digits = receiptDigits(receiptData);
+  const itemsMinor = receiptData.items.reduce((acc, item) => acc + toMinor(item.price, digits), 0);
+  const tip = policy.tip_percent !== null
+    ? fromMinor(Math.round((itemsMinor * policy.tip_percent) / 100), digits)
+    : receiptData.tip;
+  const discountsMinor = (receiptData.adjustments ?? [])
+    .reduce((acc, adjustment) => acc + toMinor(getAdjustmentAmount(receiptData, adjustment), digits), 0);
+  return {
+    discounts: fromMinor(discountsMinor, digits),
+    tax: receiptData.tax,
+    service_charge: receiptData.service_charge ?? 0,
+    cover_charge: receiptData.cover_charge ?? 0,
+    tip,
+    total: fromMinor(toMinor(receiptData.total, digits) - toMinor(receiptData.tip, digits) + toMinor(tip, digits), digits),
+  };
+};
+
+export const computeBillSplit = (
+  receiptData: ReceiptData,
+  assignments: ItemAssignment[],
+  policy: TabPolicy = DEFAULT_TAB_POLICY
+): BillSplit => {
+  const digits = receiptDigits(receiptData);
+  const people = new Map<string, PersonAccumulator>();
+  let assignedMinor = 0;
+
+  assignments.forEach(assignment => {
+    const item = receiptData.items.find(i => i.id === assignment.item_id);
+    const shares = validShares(assignment.shares);
+    if (!item || shares.length === 0) return;
+
+    const parts = allocateItem(toMinor(item.price, digits), item.quantity, shares, digits);
+    shares.forEach((share, index) => {
+      let person = people.get(share.person_name);
+      if (!person) {
+        person = { items: [], subtotalMinor: 0, discountMinor: 0 };
+        people.set(share.person_name, person);
+      }
+      // A person can hold more than one share of a line, e.g. a fixed amount
+      // plus an equal part of the rest; they still see it as one item.
+      const units = shareKind(share) === 'units' ? share.units : undefined;
+      const existing = person.items.find(i => i.item_id === item.id);
+      if (existing) {
+        existing.price = fromMinor(toMinor(existing.price, digits) + parts[index], digits);
+        existing.units = isSet(units) ? (existing.units ?? 0) + units : existing.units;
+      } else {
+        person.items.push({ item_id: item.id, item_name: item.item_name, price: fromMinor(parts[index], digits), units });
+      }
+      person.subtotalMinor += parts[index];
+      assignedMinor += parts[index];
+    });
+  });
+
+  const itemsMinor = receiptData.items.reduce((acc, item) => acc + toMinor(item.price, digits), 0);
+  const charges = getEffectiveCharges(receiptData, policy);
+  const names = Array.from(people.keys());
+
+  // Each discount goes only to the people who had the lines it covers, in
+  // proportion to what they had of them. The unassigned part of those lines
+  // keeps its share until someone claims it.
+  let unassignedDiscountMinor = 0;
+  (receiptData.adjustments ?? []).forEach(adjustment => {
+    const affectedIds = receiptData.items.filter(item => adjustmentAppliesTo(adjustment, item)).map(item => item.id);
+    const affectedMinor = receiptData.items
+      .filter(item => affectedIds.includes(item.id))
+      .reduce((acc, item) => acc + toMinor(item.price, digits), 0);
+    const personMinor = names.map(name =>
+      people.get(name)!.items
+        .filter(item => affectedIds.includes(item.item_id))
+        .reduce((acc, item) => acc + toMinor(item.price, digits), 0)
+    );
+    const unclaimedMinor = affectedMinor - personMinor.reduce((acc, m) => acc + m, 0);
+    const parts = allocateMinor(toMinor(getAdjustmentAmount(receiptData, adjustment), digits), [...personMinor, unclaimedMinor]);
+    names.forEach((name, index) => {
+      people.get(name)!.discountMinor += parts[index];
+    });
+    unassignedDiscountMinor += parts[names.length];
+  });
+
+  const unassignedMinor = Math.max(itemsMinor - assignedMinor - unassignedDiscountMinor, 0);
+  const netMinor = (name: string) => people.get(name)!.subtotalMinor - people.get(name)!.discountMinor;
+
+  // Proportional charges are prorated against the discounted items.
+  // Whatever has not been assigned yet takes part in the allocation as one
+  // extra bucket, so the people's shares never absorb the unassigned cents.
+  // Equal charges are divided per head among the people on the tab.
+  const splitCharge = (amount: number, mode: ChargeSplitMode, exempt: string[] = []): number[] => {
+    const payers = names.filter(name => !exempt.includes(name));
+    // If everyone is exempt the charge still has to be paid by someone.
+    const eligible = payers.length > 0 ? payers : names;
+    const weights = mode === 'equal'
+      ? [...names.map(name => (eligible.includes(name) ? 1 : 0)), 0]
+      : [...names.map(name => (eligible.includes(name) ? netMinor(name) : 0)), unassignedMinor];
+    return allocateMinor(toMinor(amount, digits), weights);
+  };
+
+  const taxParts = splitCharge(charges.tax, 'proportional');
+  const serviceParts = splitCharge(charges.service_charge, policy.service_split);
+  const coverParts = splitCharge(charges.cover_charge, policy.cover_split);
+  const tipParts = splitCharge(charges.tip, policy.tip_split, policy.tip_exempt);
+
+  // If the receipt's own total doesn't reconcile with its parts (typically
+  // cash rounding), the difference is prorated too, so a fully assigned
+  // receipt always adds up to its total exactly.
+  const chargesMinor = toMinor(charges.tax, digits) + toMinor(charges.service_charge, digits) + toMinor(charges.cover_charge, digits) + toMinor(charges.tip, digits);
+  const netItemsMinor = itemsMinor - toMinor(charges.discounts, digits);
+  const adjustmentParts = splitCharge(charges.total - fromMinor(netItemsMinor + chargesMinor, digits), 'proportional');
+
+  return names.map((person_name, index) => {
+    const { items, subtotalMinor, discountMinor } = people.get(person_name)!;
+    const chargeParts = [taxParts, serviceParts, coverParts, tipParts, adjustmentParts].map(parts => parts[index]);
+    return {
+      person_name,
+      items,
+      subtotal: fromMinor(subtotalMinor, digits),
+      discount: fromMinor(discountMinor, digits),
+      tax: fromMinor(taxParts[index], digits),
+      service_charge: fromMinor(serviceParts[index], digits),
+      cover_charge: fromMinor(coverParts[index], digits),
+      tip: fromMinor(tipParts[index], digits),
+      adjustment: fromMinor(adjustmentParts[index], digits),
+      total: fromMinor(chargeParts.reduce((acc, part) => acc + part, subtotalMinor - discountMinor), digits),
+    };
+  });
+};
+
+export const setItemAssignment = (
+  assignments: ItemAssignment[],
+  itemId: string,
+  shares: ItemShare[]
+): ItemAssignment[] => {
+  const kept = validShares(shares);
+  const existing = assignments.some(a => a.item_id === itemId);
+  if (kept.length === 0) {
+    return assignments.filter(a => a.item_id !== itemId);
+  }
+  return existing
+    ? assignments.map(a => (a.item_id === itemId ? { item_id: itemId, shares: kept } : a))
+    : [...assignments, { item_id: itemId, shares: kept }];
+};
+
+export const equalShares = (names: string[]): ItemShare[] =>
+  names.map(person_name => ({ person_name, weight: 1 }));
+
+export const getItemShares = (assignments: ItemAssignment[], itemId: string): ItemShare[] =>
+  validShares(assignments.find(a => a.item_id === itemId)?.shares ?? []);
+
+export interface UnassignedLine {
+  item_id: string;
+  item_name: string;
+  /** The part of the line price nobody has claimed. */
+  amount: number;
+}
+
+export interface AllocationProgress {
+  /** Unclaimed line amounts, including lines only partly claimed. */
+  lines: UnassignedLine[];
+  /** What the people's totals still fall short of the tab total, charges included. */
+  unassigned: number;
+  allocated: number;
+  total: number;
+  /** Share of the total allocated, rounded down so it only reads 100 when it is. */
+  percent: number;
+  is_fully_allocated: boolean;
+}
+
+/** How much of the tab has been claimed, worked out from a computed split. */
+export const getAllocationProgress = (receiptData: ReceiptData, billSplit: BillSplit, policy: TabPolicy): AllocationProgress => {
+  const digits = receiptDigits(receiptData);
+  const claimedMinor = new Map<string, number>();
+  billSplit.forEach(person => {
+    person.items.forEach(item => {
+      claimedMinor.set(item.item_id, (claimedMinor.get(item.item_id) ?? 0) + toMinor(item.price, digits));
+    });
+  });
+  const lines = receiptData.items
+    .map(item => ({
+      item_id: item.id,
+      item_name: item.item_name,
+      amount: fromMinor(toMinor(item.price, digits) - (claimedMinor.get(item.id) ?? 0), digits),
+    }))
+    .filter(line => line.amount > 0);
+
+  const totalMinor = toMinor(getEffectiveCharges(receiptData, policy).total, digits);
+  const allocatedMinor = billSplit.reduce((acc, person) => acc + toMinor(person.total, digits), 0);
+  const unassignedMinor = totalMinor - allocatedMinor;
+  const isFullyAllocated = lines.length === 0 && unassignedMinor === 0;
+  return {
+    lines,
+    unassigned: fromMinor(unassignedMinor, digits),
+    allocated: fromMinor(allocatedMinor, digits),
+    total: fromMinor(totalMinor, digits),
+    percent: isFullyAllocated || totalMinor <= 0 ? 100 : Math.min(Math.floor((allocatedMinor * 100) / totalMinor), 99),
+    is_fully_allocated: isFullyAllocated,
+  };
+};
+
+/** Ids of the lines whose shares differ between two sets of assignments. */
+export const changedItemIds = (before: ItemAssignment[], after: ItemAssignment[]): string[] => {
+  const itemIds = Array.from(new Set([...before, ...after].map(a => a.item_id)));
+  return itemIds.filter(itemId =>
+    JSON.stringify(getItemShares(before, itemId)) !== JSON.stringify(getItemShares(after, itemId)));
+};
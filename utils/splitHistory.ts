@@ -0,0 +1,62 @@
+import { ItemAssignment, SplitHistory, SplitVersion, SplitChangeSource } from '../types';
+
+/** Records a change to the assignments and returns the new version's id. */
+export type RecordAssignments = (
+  update: (prev: ItemAssignment[]) => ItemAssignment[],
+  source: SplitChangeSource,
+  description: string
+) => number;
+
+// Every change to a tab's assignments becomes a new version instead of
+// replacing the old one, so a bad chat interpretation can always be undone.
+
+let lastVersionId = 0;
+
+/** Version ids are timestamps, bumped when two changes land in the same ms. */
+export const createVersionId = (): number => {
+  lastVersionId = Math.max(Date.now(), lastVersionId + 1);
+  return lastVersionId;
+};
+
+export const createSplitHistory = (assignments: ItemAssignment[] = []): SplitHistory => ({
+  versions: [{ id: createVersionId(), assignments, source: 'manual', description: 'Tab started', created_at: new Date().toISOString() }],
+  index: 0,
+});
+
+export const currentAssignments = (history: SplitHistory): ItemAssignment[] =>
+  history.versions[history.index].assignments;
+
+/**
+ * Adds a version after the current one, discarding anything that was undone.
+ * A change that leaves the assignments as they were adds nothing.
+ */
+export const pushVersion = (
+  history: SplitHistory,
+  id: number,
+  assignments: ItemAssignment[],
+  source: SplitChangeSource,
+  description: string
+): SplitHistory => {
+  if (JSON.stringify(assignments) === JSON.stringify(currentAssignments(history))) {
+    return history;
+  }
+  const version: SplitVersion = { id, assignments, source, description, created_at: new Date().toISOString() };
+  const versions = [...history.versions.slice(0, history.index + 1), version];
+  return { versions, index: versions.length - 1 };
+};
+
+export const canUndo = (history: SplitHistory): boolean => history.index > 0;
+
+export const canRedo = (history: SplitHistory): boolean => history.index < history.versions.length - 1;
+
+export const undo = (history: SplitHistory): SplitHistory =>
+  canUndo(history) ? { ...history, index: history.index - 1 } : history;
+
+export const redo = (history: SplitHistory): SplitHistory =>
+  canRedo(history) ? { ...history, index: history.index + 1 } : history;
+
+/** The assignments just before a version, for showing what it changed. */
+export const previousAssignments = (history: SplitHistory, versionId: number): ItemAssignment[] | null => {
+  const position = history.versions.findIndex(v => v.id === versionId);
+  return position > 0 ? history.versions[position - 1].assignments : null;
+};
@@ -0,0 +1,253 @@
+import { EventReceipt, PersonSplit, SavedTab, TabExport, Transfer } from '../types';
+import { getAllocationProgress, getEffectiveCharges, EffectiveCharges, DEFAULT_TAB_POLICY } from './splitEngine';
+import { Ledger, ReceiptSplit, buildLedger, splitEventReceipt, tabReceipts } from './event';
+import { computeBalances, computeTransfers } from './settleUp';
+import { EMPTY_FX_SETTINGS, paymentsIn } from './fx';
+import { EMPTY_ROSTER } from './roster';
+import { CurrencyFormat, currencyDigits, currencyFormatFor, currencyFormatOf, formatCurrency } from './currency';
+
+// Getting a finished tab out of the app: a message for a group chat, CSV for
+// spreadsheets, a printable page, and JSON that keeps everything so the tab
+// can be loaded again. The receipt photos are not included.
+
+export const TAB_EXPORT_FORMAT = 'tabsplit-tab';
+export const TAB_EXPORT_VERSION = 1;
+
+export interface ReceiptReport {
+  entry: EventReceipt;
+  split: ReceiptSplit;
+  charges: EffectiveCharges;
+  unassigned: number;
+  currency: CurrencyFormat;
+}
+
+export interface TabReport {
+  receipts: ReceiptReport[];
+  ledger: Ledger;
+  home: CurrencyFormat;
+  transfers: Transfer[];
+}
+
+/** Everything the exports show, worked out from the saved tab alone. */
+export const buildTabReport = (tab: SavedTab): TabReport => {
+  const receipts = tabReceipts(tab).map(saved => {
+    const entry = { ...saved, policy: { ...DEFAULT_TAB_POLICY, ...saved.policy } };
+    const split = splitEventReceipt(entry);
+    return {
+      entry,
+      split,
+      charges: getEffectiveCharges(entry.receipt, entry.policy),
+      unassigned: getAllocationProgress(entry.receipt, split.billSplit, entry.policy).unassigned,
+      currency: currencyFormatOf(entry.receipt),
+    };
+  });
+  const fx = tab.fx ?? EMPTY_FX_SETTINGS;
+  const ledger = buildLedger(receipts.map(report => report.split), fx.home_currency ?? receipts[0].split.currency, fx.rates);
+  const home = ledger.currency === receipts[0].currency.currency ? receipts[0].currency : currencyFormatFor(ledger.currency);
+  const payments = paymentsIn(tab.settlement?.payments ?? [], ledger.currency, fx.rates);
+  const digits = currencyDigits(ledger.currency);
+  const transfers = payments.length > 0
+    ? computeTransfers(computeBalances(ledger.rows, payments, tab.roster ?? EMPTY_ROSTER, digits), digits)
+    : [];
+  return { receipts, ledger, home, transfers };
+};
+
+/** A single ledger is only worth showing when it adds something to the receipts. */
+export const showsLedger = ({ receipts, ledger }: TabReport) =>
+  receipts.length > 1 || receipts[0].split.currency !== ledger.currency;
+
+/** The charges on one person's share, skipping the ones that don't apply. */
+const personCharges = (person: PersonSplit): [string, number][] => [
+  ['Subtotal', person.subtotal],
+  ['Discounts', -person.discount],
+  ['Tax', person.tax],
+  ['Service', person.service_charge],
+  ['Cover', person.cover_charge],
+  ['Tip', person.tip],
+  ['Rounding', person.adjustment],
+].filter(([label, amount]) => amount !== 0 || label === 'Tax' || label === 'Tip') as [string, number][];
+
+const receiptCharges = (charges: EffectiveCharges, subtotal: number): [string, number][] => [
+  ['Subtotal', subtotal],
+  ['Discounts', -charges.discounts],
+  ['Tax', charges.tax],
+  ['Service charge', charges.service_charge],
+  ['Cover charge', charges.cover_charge],
+  ['Tip', charges.tip],
+  ['Total', charges.total],
+].filter(([label, amount]) => amount !== 0 || label === 'Tax' || label === 'Tip' || label === 'Total') as [string, number][];
+
+const itemLabel = (item: { item_name: string; units?: number }) =>
+  `${item.units ? `${item.units} x ` : ''}${item.item_name}`;
+
+/** A message ready to paste into WhatsApp, which shows *text* in bold. */
+export const tabToText = (tab: SavedTab): string => {
+  const report = buildTabReport(tab);
+  const lines: string[] = [`*${tab.name}*`];
+
+  report.receipts.forEach(({ entry, split, charges, unassigned, currency }) => {
+    const format = (amount: number) => formatCurrency(amount, currency);
+    lines.push('');
+    if (report.receipts.length > 1) lines.push(`*${entry.name}*`);
+    entry.receipt.items.forEach(item => {
+      lines.push(`${item.quantity > 1 ? `${item.quantity} x ` : ''}${item.item_name}: ${format(item.price)}`);
+    });
+    receiptCharges(charges, entry.receipt.subtotal).forEach(([label, amount]) => lines.push(`${label}: ${format(amount)}`));
+
+    split.billSplit.forEach(person => {
+      lines.push('', `*${person.person_name}: ${format(person.total)}*`);
+      person.items.forEach(item => lines.push(`• ${itemLabel(item)}: ${format(item.price)}`));
+      lines.push(personCharges(person).filter(([label]) => label !== 'Subtotal').map(([label, amount]) => `${label} ${format(amount)}`).join(' | '));
+    });
+    if (unassigned > 0) lines.push('', `Not assigned yet: ${format(unassigned)}`);
+  });
+
+  if (showsLedger(report)) {
+    lines.push('', `*Everyone's total (${report.ledger.currency})*`);
+    report.ledger.rows.forEach(row => lines.push(`${row.person_name}: ${formatCurrency(row.total, report.home)}`));
+    if (report.ledger.missing_rates.length > 0) {
+      lines.push(`Receipts in ${report.ledger.missing_rates.join(', ')} are left out until they have a rate.`);
+    }
+  }
+
+  if (report.transfers.length > 0) {
+    lines.push('', '*Settle up*');
+    report.transfers.forEach(transfer => lines.push(`${transfer.from} pays ${transfer.to} ${formatCurrency(transfer.amount, report.home)}`));
+  }
+
+  return lines.join('\n');
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Plain numbers, so spreadsheets read them as numbers whatever the locale.
+const csvAmount = (amount: number, currency: string) => amount.toFixed(currencyDigits(currency));
+
+/** One row per receipt line, per person's item and charge, and per settle-up transfer. */
+export const tabToCsv = (tab: SavedTab): string => {
+  const report = buildTabReport(tab);
+  const rows: (string | number)[][] = [['Receipt', 'Person', 'Line', 'Quantity', 'Amount', 'Currency']];
+
+  report.receipts.forEach(({ entry, split, charges, currency }) => {
+    const code = currency.currency;
+    entry.receipt.items.forEach(item => rows.push([entry.name, '', item.item_name, item.quantity, csvAmount(item.price, code), code]));
+    receiptCharges(charges, entry.receipt.subtotal).forEach(([label, amount]) => rows.push([entry.name, '', label, '', csvAmount(amount, code), code]));
+    split.billSplit.forEach(person => {
+      person.items.forEach(item => rows.push([entry.name, person.person_name, item.item_name, item.units ?? '', csvAmount(item.price, code), code]));
+      personCharges(person).forEach(([label, amount]) => rows.push([entry.name, person.person_name, label, '', csvAmount(amount, code), code]));
+      rows.push([entry.name, person.person_name, 'Total', '', csvAmount(person.total, code), code]);
+    });
+  });
+
+  if (showsLedger(report)) {
+    report.ledger.rows.forEach(row => rows.push(['All receipts', row.person_name, 'Total', '', csvAmount(row.total, report.ledger.currency), report.ledger.currency]));
+  }
+  report.transfers.forEach(transfer => {
+    rows.push(['Settle up', transfer.from, `Pays ${transfer.to}`, '', csvAmount(transfer.amount, report.ledger.currency), report.ledger.currency]);
+  });
+
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+/**
+ * Base64url SHA-256 of the tab as JSON. It catches files and links edited by
+ * hand or cut short; anyone can recompute it, so it is not a signature.
+ */
+export const tabChecksum = async (tab: SavedTab): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(tab)));
+  return toBase64Url(new Uint8Array(digest));
+};
+
+export const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  // In chunks, as spreading a long array into one call overflows the stack.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const buildTabExport = async (tab: SavedTab): Promise<TabExport> => ({
+  format: TAB_EXPORT_FORMAT,
+  version: TAB_EXPORT_VERSION,
+  exported_at: new Date().toISOString(),
+  tab,
+  checksum: await tabChecksum(tab),
+});
+
+/** Everything about the tab, so it can be loaded back exactly as it was. */
+export const tabToJson = async (tab: SavedTab): Promise<string> =>
+  JSON.stringify(await buildTabExport(tab), null, 2);
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const htmlRow = (cells: string[], className = '') =>
+  `<tr${className ? ` class="${className}"` : ''}>${cells.map((cell, index) => `<td${index === cells.length - 1 ? ' class="amount"' : ''}>${escapeHtml(cell)}</td>`).join('')}</tr>`;
+
+/** A standalone page for the browser to print or save as a PDF. */
+export const tabToPrintHtml = (tab: SavedTab): string => {
+  const report = buildTabReport(tab);
+  const sections = report.receipts.map(({ entry, split, charges, unassigned, currency }) => {
+    const format = (amount: number) => formatCurrency(amount, currency);
+    const receiptRows = [
+      ...entry.receipt.items.map(item => htmlRow([`${item.quantity > 1 ? `${item.quantity} x ` : ''}${item.item_name}`, format(item.price)])),
+      ...receiptCharges(charges, entry.receipt.subtotal).map(([label, amount]) => htmlRow([label, format(amount)], 'charge')),
+    ];
+    const people = split.billSplit.map(person => `
+      <h3>${escapeHtml(person.person_name)} <span class="amount">${escapeHtml(format(person.total))}</span></h3>
+      <table>
+        ${person.items.map(item => htmlRow([itemLabel(item), format(item.price)])).join('')}
+        ${personCharges(person).map(([label, amount]) => htmlRow([label, format(amount)], 'charge')).join('')}
+      </table>`);
+    return `
+      <section>
+        ${report.receipts.length > 1 ? `<h2>${escapeHtml(entry.name)}</h2>` : ''}
+        <table>${receiptRows.join('')}</table>
+        ${people.join('')}
+        ${unassigned > 0 ? `<p class="note">Not assigned yet: ${escapeHtml(format(unassigned))}</p>` : ''}
+      </section>`;
+  });
+
+  const ledger = showsLedger(report)
+    ? `<section><h2>Everyone's total (${escapeHtml(report.ledger.currency)})</h2><table>${report.ledger.rows.map(row => htmlRow([row.person_name, formatCurrency(row.total, report.home)])).join('')}</table></section>`
+    : '';
+  const transfers = report.transfers.length > 0
+    ? `<section><h2>Settle up</h2><table>${report.transfers.map(transfer => htmlRow([`${transfer.from} pays ${transfer.to}`, formatCurrency(transfer.amount, report.home)])).join('')}</table></section>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(tab.name)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #1e293b; max-width: 40rem; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.5rem; }
+  h2 { font-size: 1.2rem; margin-top: 2rem; border-bottom: 1px solid #cbd5e1; }
+  h3 { font-size: 1rem; margin: 1.25rem 0 0.25rem; display: flex; justify-content: space-between; color: #4f46e5; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+  td { padding: 0.15rem 0; }
+  .amount { text-align: right; white-space: nowrap; }
+  .charge td { color: #64748b; }
+  .note { color: #d97706; font-size: 0.875rem; }
+  section { break-inside: avoid; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(tab.name)}</h1>
+${sections.join('')}
+${ledger}
+${transfers}
+</body>
+</html>`;
+};
+
+/** A file name made from the tab's name, e.g. "friday-dinner.csv". */
+export const exportFileName = (tab: SavedTab, extension: string): string => {
+  const slug = tab.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'tab'}.${extension}`;
+};
@@ -0,0 +1,306 @@
+import {
+  ChatMessage, EventReceipt, FxSettings, ItemAssignment, ReceiptAdjustment, ReceiptData, ReceiptItem, Roster, SavedTab,
+  Settlement, SplitHistory, TabExport, TabPolicy,
+} from '../types';
+import { TAB_EXPORT_FORMAT, TAB_EXPORT_VERSION, tabChecksum } from './tabExport';
+import { isCurrencyCode, isLocale } from './currency';
+import { DEFAULT_TAB_POLICY } from './splitEngine';
+
+// Loading a tab back from the JSON export. Files from older versions are
+// migrated forward first, then everything is checked field by field so a
+// broken or edited file is refused with the place it went wrong, instead of
+// being opened and failing somewhere in the split.
+
+/** Each entry upgrades an export from the version before it. */
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  // Before the envelope existed, a tab was written out exactly as it was stored.
+  1: (tab) => ({ format: TAB_EXPORT_FORMAT, version: 1, exported_at: tab.updated_at, tab }),
+};
+
+const exportVersion = (data: any): number => {
+  if (data?.format === TAB_EXPORT_FORMAT) {
+    if (!Number.isInteger(data.version) || data.version < 1) throw new Error('The file has no valid format version.');
+    return data.version;
+  }
+  if (data && typeof data === 'object' && 'receipt' in data && 'id' in data) return 0;
+  throw new Error('This is not a TabSplit export.');
+};
+
+const migrate = (data: any): TabExport => {
+  let version = exportVersion(data);
+  if (version > TAB_EXPORT_VERSION) {
+    throw new Error(`The file was made by a newer version of TabSplit (format ${version}). Update the app to open it.`);
+  }
+  while (version < TAB_EXPORT_VERSION) {
+    version += 1;
+    data = MIGRATIONS[version](data);
+  }
+  return data;
+};
+
+// Small checkers that throw with the path of the bad field, e.g.
+// "receipt.items[2].price: expected a number".
+
+const fail = (path: string, expected: string): never => {
+  throw new Error(`${path}: expected ${expected}.`);
+};
+
+const object = (value: unknown, path: string): Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : fail(path, 'an object');
+
+const array = <T>(value: unknown, path: string, check: (entry: unknown, path: string) => T): T[] =>
+  Array.isArray(value) ? value.map((entry, index) => check(entry, `${path}[${index}]`)) : fail(path, 'a list');
+
+const string = (value: unknown, path: string): string =>
+  typeof value === 'string' ? value : fail(path, 'text');
+
+const number = (value: unknown, path: string): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fail(path, 'a number');
+
+const nonNegative = (value: unknown, path: string): number =>
+  number(value, path) >= 0 ? value as number : fail(path, 'a number of at least 0');
+
+const boolean = (value: unknown, path: string): boolean =>
+  typeof value === 'boolean' ? value : fail(path, 'true or false');
+
+const oneOf = <T extends string>(options: readonly T[]) => (value: unknown, path: string): T =>
+  options.includes(value as T) ? value as T : fail(path, `one of ${options.join(', ')}`);
+
+const currencyCode = (value: unknown, path: string): string =>
+  typeof value === 'string' && isCurrencyCode(value) ? value : fail(path, 'a currency code such as ZAR');
+
+const optional = <T>(value: unknown, path: string, check: (value: unknown, path: string) => T): T | undefined =>
+  value === undefined ? undefined : check(value, path);
+
+const record = <T>(value: unknown, path: string, check: (entry: unknown, path: string) => T): Record<string, T> =>
+  Object.fromEntries(Object.entries(object(value, path)).map(([key, entry]) => [key, check(entry, `${path}.${key}`)]));
+
+/** Drops the keys left undefined, so a loaded tab matches one saved by the app. */
+const defined = <T extends object>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T;
+
+const checkItem = (value: unknown, path: string): ReceiptItem => {
+  const item = object(value, path);
+  return defined({
+    id: string(item.id, `${path}.id`),
+    item_name: string(item.item_name, `${path}.item_name`),
+    quantity: nonNegative(item.quantity, `${path}.quantity`),
+    price: number(item.price, `${path}.price`),
+    confidence_score: number(item.confidence_score, `${path}.confidence_score`),
+    notes: optional(item.notes, `${path}.notes`, string),
+    category: optional(item.category, `${path}.category`, string),
+  });
+};
+
+const checkAdjustment = (value: unknown, path: string): ReceiptAdjustment => {
+  const adjustment = object(value, path);
+  return defined({
+    id: string(adjustment.id, `${path}.id`),
+    kind: oneOf(['discount', 'voucher', 'comp'] as const)(adjustment.kind, `${path}.kind`),
+    description: string(adjustment.description, `${path}.description`),
+    amount: optional(adjustment.amount, `${path}.amount`, nonNegative),
+    percent: optional(adjustment.percent, `${path}.percent`, nonNegative),
+    scope: oneOf(['bill', 'category', 'items'] as const)(adjustment.scope, `${path}.scope`),
+    category: optional(adjustment.category, `${path}.category`, string),
+    item_ids: optional(adjustment.item_ids, `${path}.item_ids`, (ids, idsPath) => array(ids, idsPath, string)),
+  });
+};
+
+const checkReceipt = (value: unknown, path: string): ReceiptData => {
+  const receipt = object(value, path);
+  const items = array(receipt.items, `${path}.items`, checkItem);
+  const ids = new Set<string>();
+  items.forEach((item, index) => {
+    if (ids.has(item.id)) fail(`${path}.items[${index}].id`, `an id not used by another line ("${item.id}" is)`);
+    ids.add(item.id);
+  });
+  return defined({
+    items,
+    adjustments: optional(receipt.adjustments, `${path}.adjustments`, (adjustments, adjustmentsPath) => array(adjustments, adjustmentsPath, checkAdjustment)),
+    subtotal: number(receipt.subtotal, `${path}.subtotal`),
+    tax: number(receipt.tax, `${path}.tax`),
+    service_charge: optional(receipt.service_charge, `${path}.service_charge`, number),
+    cover_charge: optional(receipt.cover_charge, `${path}.cover_charge`, number),
+    tip: number(receipt.tip, `${path}.tip`),
+    total: number(receipt.total, `${path}.total`),
+    currency: optional(receipt.currency, `${path}.currency`, currencyCode),
+    locale: optional(receipt.locale, `${path}.locale`, (locale, localePath) =>
+      typeof locale === 'string' && isLocale(locale) ? locale : fail(localePath, 'a locale such as en-ZA')),
+  });
+};
+
+/** Assignments must point at lines on their own receipt. */
+const checkAssignments = (value: unknown, path: string, receipt: ReceiptData): ItemAssignment[] =>
+  array(value, path, (entry, entryPath) => {
+    const assignment = object(entry, entryPath);
+    const itemId = string(assignment.item_id, `${entryPath}.item_id`);
+    if (!receipt.items.some(item => item.id === itemId)) fail(`${entryPath}.item_id`, `a line on the receipt ("${itemId}" is not one)`);
+    return {
+      item_id: itemId,
+      shares: array(assignment.shares, `${entryPath}.shares`, (share, sharePath) => {
+        const fields = object(share, sharePath);
+        return defined({
+          person_name: string(fields.person_name, `${sharePath}.person_name`),
+          weight: nonNegative(fields.weight, `${sharePath}.weight`),
+          amount: optional(fields.amount, `${sharePath}.amount`, nonNegative),
+          percent: optional(fields.percent, `${sharePath}.percent`, nonNegative),
+          units: optional(fields.units, `${sharePath}.units`, nonNegative),
+        });
+      }),
+    };
+  });
+
+const checkPolicy = (value: unknown, path: string): TabPolicy => {
+  const policy = object(value, path);
+  const split = oneOf(['proportional', 'equal'] as const);
+  // Fields missing from older or hand-made files get the defaults here, for
+  // every receipt of the event; the split must never see an undefined tip.
+  return {
+    ...DEFAULT_TAB_POLICY,
+    ...defined({
+      tip_split: optional(policy.tip_split, `${path}.tip_split`, split),
+      tip_percent: policy.tip_percent === null ? null : optional(policy.tip_percent, `${path}.tip_percent`, nonNegative),
+      tip_exempt: optional(policy.tip_exempt, `${path}.tip_exempt`, (names, namesPath) => array(names, namesPath, string)),
+      service_split: optional(policy.service_split, `${path}.service_split`, split),
+      cover_split: optional(policy.cover_split, `${path}.cover_split`, split),
+      block_on_invalid_receipt: optional(policy.block_on_invalid_receipt, `${path}.block_on_invalid_receipt`, boolean),
+    }),
+  };
+};
+
+const checkChat = (value: unknown, path: string): ChatMessage[] =>
+  array(value, path, (entry, entryPath) => {
+    const message = object(entry, entryPath);
+    return defined({
+      sender: oneOf(['user', 'bot', 'system'] as const)(message.sender, `${entryPath}.sender`),
+      text: string(message.text, `${entryPath}.text`),
+      version_id: optional(message.version_id, `${entryPath}.version_id`, number),
+    });
+  });
+
+const checkHistory = (value: unknown, path: string, receipt: ReceiptData): SplitHistory => {
+  const history = object(value, path);
+  const versions = array(history.versions, `${path}.versions`, (entry, entryPath) => {
+    const version = object(entry, entryPath);
+    return {
+      id: number(version.id, `${entryPath}.id`),
+      assignments: checkAssignments(version.assignments, `${entryPath}.assignments`, receipt),
+      source: oneOf(['chat', 'manual', 'receipt'] as const)(version.source, `${entryPath}.source`),
+      description: string(version.description, `${entryPath}.description`),
+      created_at: string(version.created_at, `${entryPath}.created_at`),
+    };
+  });
+  const index = number(history.index, `${path}.index`);
+  if (!Number.isInteger(index) || index < 0 || index >= versions.length) fail(`${path}.index`, `a version between 0 and ${versions.length - 1}`);
+  return { versions, index };
+};
+
+const checkRoster = (value: unknown, path: string): Roster => {
+  const roster = object(value, path);
+  return {
+    people: array(roster.people, `${path}.people`, string),
+    groups: array(roster.groups, `${path}.groups`, (entry, entryPath) => {
+      const group = object(entry, entryPath);
+      return { name: string(group.name, `${entryPath}.name`), members: array(group.members, `${entryPath}.members`, string) };
+    }),
+  };
+};
+
+const checkSettlement = (value: unknown, path: string): Settlement => {
+  const settlement = object(value, path);
+  return {
+    payments: array(settlement.payments, `${path}.payments`, (entry, entryPath) => {
+      const payment = object(entry, entryPath);
+      return defined({
+        id: string(payment.id, `${entryPath}.id`),
+        person_name: string(payment.person_name, `${entryPath}.person_name`),
+        amount: nonNegative(payment.amount, `${entryPath}.amount`),
+        method: oneOf(['card', 'cash', 'other'] as const)(payment.method, `${entryPath}.method`),
+        currency: optional(payment.currency, `${entryPath}.currency`, currencyCode),
+      });
+    }),
+    paid_transfers: array(settlement.paid_transfers, `${path}.paid_transfers`, string),
+  };
+};
+
+const checkFx = (value: unknown, path: string): FxSettings => {
+  const fx = object(value, path);
+  return defined({
+    home_currency: optional(fx.home_currency, `${path}.home_currency`, currencyCode),
+    rates: array(fx.rates, `${path}.rates`, (entry, entryPath) => {
+      const rate = object(entry, entryPath);
+      return {
+        from: currencyCode(rate.from, `${entryPath}.from`),
+        to: currencyCode(rate.to, `${entryPath}.to`),
+        rate: number(rate.rate, `${entryPath}.rate`) > 0 ? rate.rate as number : fail(`${entryPath}.rate`, 'a rate above 0'),
+        source: oneOf(['manual', 'file'] as const)(rate.source, `${entryPath}.source`),
+      };
+    }),
+    person_currencies: record(fx.person_currencies, `${path}.person_currencies`, currencyCode),
+    card_fees: record(fx.card_fees, `${path}.card_fees`, nonNegative),
+  });
+};
+
+const checkEventReceipt = (value: unknown, path: string): EventReceipt => {
+  const entry = object(value, path);
+  const receipt = checkReceipt(entry.receipt, `${path}.receipt`);
+  return {
+    id: string(entry.id, `${path}.id`),
+    name: string(entry.name, `${path}.name`),
+    receipt,
+    policy: checkPolicy(entry.policy, `${path}.policy`),
+    split_history: checkHistory(entry.split_history, `${path}.split_history`, receipt),
+    chat_messages: checkChat(entry.chat_messages, `${path}.chat_messages`),
+  };
+};
+
+const checkTab = (value: unknown): SavedTab => {
+  const tab = object(value, 'tab');
+  const receipt = checkReceipt(tab.receipt, 'tab.receipt');
+  const checked: SavedTab = defined({
+    id: string(tab.id, 'tab.id'),
+    name: string(tab.name, 'tab.name'),
+    created_at: string(tab.created_at, 'tab.created_at'),
+    updated_at: string(tab.updated_at, 'tab.updated_at'),
+    receipt,
+    assignments: checkAssignments(tab.assignments, 'tab.assignments', receipt),
+    policy: checkPolicy(tab.policy, 'tab.policy'),
+    chat_messages: checkChat(tab.chat_messages, 'tab.chat_messages'),
+    split_history: optional(tab.split_history, 'tab.split_history', (history, path) => checkHistory(history, path, receipt)),
+    roster: optional(tab.roster, 'tab.roster', checkRoster),
+    settlement: optional(tab.settlement, 'tab.settlement', checkSettlement),
+    fx: optional(tab.fx, 'tab.fx', checkFx),
+    receipt_id: optional(tab.receipt_id, 'tab.receipt_id', string),
+    receipt_name: optional(tab.receipt_name, 'tab.receipt_name', string),
+    other_receipts: optional(tab.other_receipts, 'tab.other_receipts', (receipts, path) => array(receipts, path, checkEventReceipt)),
+  });
+  const receiptIds = [checked.receipt_id ?? '', ...(checked.other_receipts ?? []).map(entry => entry.id)];
+  if (new Set(receiptIds).size !== receiptIds.length) fail('tab.other_receipts', 'each receipt to have its own id');
+  return checked;
+};
+
+/**
+ * Reads a tab from the JSON export. Throws an Error saying what is wrong when
+ * the file is not an export, is from a newer version, fails validation, or
+ * no longer matches the checksum written when it was exported.
+ */
+export const parseTabExport = async (text: string): Promise<SavedTab> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('This is not a TabSplit export: it is not valid JSON.');
+  }
+  // Only a bare tab from before the envelope has no checksum; an envelope
+  // without one has had it removed.
+  const isBareTab = exportVersion(data) === 0;
+  const envelope = migrate(data);
+  const tab = checkTab(envelope.tab);
+  if (!isBareTab && typeof envelope.checksum !== 'string') {
+    throw new Error('The file has no checksum, so it cannot be checked and was not loaded.');
+  }
+  if (!isBareTab && envelope.checksum !== await tabChecksum(envelope.tab)) {
+    throw new Error('The tab was changed after it was exported, so it was not loaded.');
+  }
+  return tab;
+};
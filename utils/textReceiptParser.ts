@@ -0,0 +1,101 @@
+import { ReceiptData, ReceiptItem, ReceiptAdjustment } from '../types';
+import { assignItemIds, assignAdjustmentIds } from './receipt';
+import { toMinor, fromMinor } from './money';
+import { currencyDigits, detectCurrency, normalizeCurrency } from './currency';
+
+// A small offline parser for receipts pasted as plain text. It only looks at
+// lines that end in an amount and sorts them by keyword; anything it cannot
+// place is ignored, so the result is meant to be reviewed in the editor.
+
+const AMOUNT_AT_END = /(?:^|\s)(-?)\s*(?:R|\$|€|£|¥)?\s*(\d{1,3}(?:[ ,]\d{3})*(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?)\s*(-?)\s*$/;
+const LEADING_QUANTITY = /^(\d+)\s*(?:x|×|@)?\s+(.+)$/i;
+
+// Heuristic lines are plausible but unchecked.
+const PARSED_CONFIDENCE = 0.8;
+
+type LineKind = 'subtotal' | 'total' | 'tax' | 'tip' | 'service_charge' | 'cover_charge' | 'discount' | 'ignore' | 'item';
+
+const classify = (label: string): LineKind => {
+  const text = label.toLowerCase();
+  if (/sub\s*-?\s*total/.test(text)) return 'subtotal';
+  if (/\b(change|cash|card|tendered|paid|visa|mastercard|balance due)\b/.test(text)) return 'ignore';
+  if (/\b(total|amount due|to pay)\b/.test(text)) return 'total';
+  if (/\b(tax|vat|gst)\b/.test(text)) return 'tax';
+  if (/\b(tip|gratuity)\b/.test(text)) return 'tip';
+  if (/\bservice\b/.test(text)) return 'service_charge';
+  if (/\b(cover|table charge)\b/.test(text)) return 'cover_charge';
+  if (/\b(discount|voucher|promo|comp)\b/.test(text)) return 'discount';
+  return 'item';
+};
+
+const parseAmount = (raw: string): number => {
+  // "1 234,50" and "1,234.50" both become 1234.50.
+  const normalised = raw.replace(/[ ](?=\d{3})/g, '').replace(/,(?=\d{3}\b)/g, '').replace(',', '.');
+  return Number(normalised);
+};
+
+export const parseReceiptText = (text: string): ReceiptData => {
+  const items: Omit<ReceiptItem, 'id'>[] = [];
+  const adjustments: Omit<ReceiptAdjustment, 'id'>[] = [];
+  const found: Partial<Record<LineKind, number>> = {};
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    const match = line.match(AMOUNT_AT_END);
+    if (!line || !match) return;
+
+    const label = line.slice(0, match.index).trim();
+    const isNegative = match[1] === '-' || match[3] === '-';
+    const amount = parseAmount(match[2]);
+    if (!label || !Number.isFinite(amount)) return;
+
+    const kind = isNegative ? 'discount' : classify(label);
+    if (kind === 'ignore') return;
+    if (kind === 'item') {
+      const quantityMatch = label.match(LEADING_QUANTITY);
+      items.push({
+        item_name: quantityMatch ? quantityMatch[2].trim() : label,
+        quantity: quantityMatch ? Number(quantityMatch[1]) : 1,
+        price: amount,
+        confidence_score: PARSED_CONFIDENCE,
+      });
+    } else if (kind === 'discount') {
+      adjustments.push({ kind: 'discount', description: label, amount, scope: 'bill' });
+    } else if (found[kind] === undefined) {
+      // Keep the first of each; receipts often repeat the total at the bottom.
+      found[kind] = amount;
+    }
+  });
+
+  // Totals are worked out in the receipt's own minor units, e.g. whole yen.
+  const format = normalizeCurrency(detectCurrency(text) ?? undefined);
+  const digits = format.currency ? currencyDigits(format.currency) : undefined;
+  const itemsMinor = items.reduce((acc, item) => acc + toMinor(item.price, digits), 0);
+  const subtotal = found.subtotal ?? fromMinor(itemsMinor, digits);
+  const discountsMinor = adjustments.reduce((acc, a) => acc + toMinor(a.amount ?? 0, digits), 0);
+  const service_charge = found.service_charge ?? 0;
+  const cover_charge = found.cover_charge ?? 0;
+  const tip = found.tip ?? 0;
+  let tax = found.tax ?? 0;
+
+  const totalWithTaxMinor = toMinor(subtotal, digits) - discountsMinor + toMinor(tax, digits)
+    + toMinor(service_charge, digits) + toMinor(cover_charge, digits) + toMinor(tip, digits);
+  // Prices that already include tax (common with VAT) print the tax for
+  // information only; counting it again would overshoot the total.
+  if (found.total !== undefined && tax > 0 && toMinor(found.total, digits) === totalWithTaxMinor - toMinor(tax, digits)) {
+    tax = 0;
+  }
+  const total = found.total ?? fromMinor(totalWithTaxMinor, digits);
+
+  return {
+    items: assignItemIds(items),
+    adjustments: assignAdjustmentIds(adjustments),
+    subtotal,
+    tax,
+    service_charge,
+    cover_charge,
+    tip,
+    total,
+    ...format,
+  };
+};